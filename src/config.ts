@@ -1,6 +0,0 @@
-import { baseConfig } from "./types/interfaces/baseConfig";
-
-export const config: baseConfig = {
-  browser: "chromium",
-  headless: false,
-};
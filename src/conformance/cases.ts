@@ -0,0 +1,761 @@
+import { existsSync, statSync, unlinkSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { crawl } from "../frameworks/common/crawl";
+import { PagePool } from "../frameworks/common/pagePool";
+import { paginate } from "../frameworks/common/paginate";
+import { IBaseBrowser } from "../types/interfaces/baseBrowser";
+import { paginationOptions } from "../types/interfaces/basePagination";
+
+/**
+ * A single check run against every backend, each backend must return the expected value or throw the expected error
+ */
+export interface ConformanceCase {
+  name: string;
+  /**
+   * Fixture page opened in a fresh tab before the case runs
+   */
+  path: string;
+  /**
+   * Value the case must return, compared as JSON
+   */
+  expected?: unknown;
+  /**
+   * Name of the error the case must throw instead
+   */
+  throws?: string;
+  run: (browser: IBaseBrowser, baseUrl: string) => Promise<unknown>;
+}
+
+const events = async (browser: IBaseBrowser): Promise<string[]> =>
+  (await browser.selector("#events").getText())
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const relativeUrl = (url: string, baseUrl: string): string =>
+  url.startsWith(baseUrl) ? url.slice(baseUrl.length) : url;
+
+const entries = async (browser: IBaseBrowser): Promise<string[]> =>
+  await browser.selector(".entry").map(async (entry) => await entry.getText());
+
+const collectPages = async (
+  browser: IBaseBrowser,
+  baseUrl: string,
+  options: paginationOptions<string[]>
+): Promise<unknown[]> => {
+  const pages: unknown[] = [];
+  for await (const { page, url, data } of paginate(browser, options))
+    pages.push([page, relativeUrl(url, baseUrl), data]);
+  return pages;
+};
+
+export const conformanceCases: ConformanceCase[] = [
+  // IBaseBrowser
+  {
+    name: "browser.navigateTo + getUrl",
+    path: "/index.html",
+    expected: "/list.html",
+    run: async (browser, baseUrl) => {
+      await browser.navigateTo(`${baseUrl}/list.html`);
+      return relativeUrl(await browser.getUrl(), baseUrl);
+    },
+  },
+  {
+    name: "browser.navigateBack",
+    path: "/index.html",
+    expected: "/index.html",
+    run: async (browser, baseUrl) => {
+      await browser.navigateTo(`${baseUrl}/list.html`);
+      await browser.navigateBack();
+      return relativeUrl(await browser.getUrl(), baseUrl);
+    },
+  },
+  {
+    name: "browser.navigateForward",
+    path: "/index.html",
+    expected: "/list.html",
+    run: async (browser, baseUrl) => {
+      await browser.navigateTo(`${baseUrl}/list.html`);
+      await browser.navigateBack();
+      await browser.navigateForward();
+      return relativeUrl(await browser.getUrl(), baseUrl);
+    },
+  },
+  {
+    name: "browser.refresh",
+    path: "/list.html",
+    expected: ["/list.html", 4],
+    run: async (browser, baseUrl) => {
+      await browser.refresh();
+      return [
+        relativeUrl(await browser.getUrl(), baseUrl),
+        await browser.selector(".item").count(),
+      ];
+    },
+  },
+  {
+    name: "browser.openTab + closeTab",
+    path: "/tabs.html",
+    expected: ["Second tab", "First tab"],
+    run: async (browser, baseUrl) => {
+      await browser.openTab(`${baseUrl}/second.html`);
+      const opened = await browser.selector("#title").getText();
+      await browser.closeTab();
+      return [opened, await browser.selector("#title").getText()];
+    },
+  },
+  {
+    name: "browser.switchToTab",
+    path: "/tabs.html",
+    expected: ["First tab", "Second tab"],
+    run: async (browser, baseUrl) => {
+      // the runner's anchor tab is 0 and this case's tab is 1
+      await browser.openTab(`${baseUrl}/second.html`);
+      await browser.switchToTab(1);
+      const first = await browser.selector("#title").getText();
+      await browser.switchToTab(2);
+      const second = await browser.selector("#title").getText();
+      await browser.closeTab();
+      return [first, second];
+    },
+  },
+  {
+    name: "browser.switchToTab out of range",
+    path: "/tabs.html",
+    throws: "TabNotFoundError",
+    run: async (browser) => {
+      await browser.switchToTab(99);
+    },
+  },
+  {
+    name: "browser.openWorker",
+    path: "/tabs.html",
+    expected: ["Second tab", "/tabs.html", "/tabs.html"],
+    run: async (browser, baseUrl) => {
+      const worker = await browser.openWorker();
+      await worker.navigateTo(`${baseUrl}/second.html`);
+      const titles = [
+        await worker.selector("#title").getText(),
+        relativeUrl(await browser.getUrl(), baseUrl),
+      ];
+      await worker.closeBrowser();
+      return [...titles, relativeUrl(await browser.getUrl(), baseUrl)];
+    },
+  },
+  {
+    name: "browser.intercept",
+    path: "/index.html",
+    expected: ["Canned", "NavigationError", "/list.html"],
+    run: async (browser, baseUrl) => {
+      await browser.intercept({
+        action: "fulfill",
+        match: { url: "/canned.html", resourceTypes: ["document"] },
+        response: {
+          contentType: "text/html",
+          body: "<h1 id='title'>Canned</h1>",
+        },
+      });
+      await browser.intercept({
+        action: "block",
+        match: { url: /list\.html$/ },
+      });
+      await browser.navigateTo(`${baseUrl}/canned.html`);
+      const canned = await browser.selector("#title").getText();
+      const blocked = await browser
+        .navigateTo(`${baseUrl}/list.html`)
+        .then(() => "loaded")
+        .catch((error: Error) => error.name);
+      await browser.clearInterceptions();
+      await browser.navigateTo(`${baseUrl}/list.html`);
+      return [canned, blocked, relativeUrl(await browser.getUrl(), baseUrl)];
+    },
+  },
+  {
+    name: "browser.captureResponses",
+    path: "/index.html",
+    expected: [["/api/items.json", 200, { items: ["a", "b"] }]],
+    run: async (browser, baseUrl) => {
+      const capture = await browser.captureResponses({ contentType: "json" });
+      await browser.navigateTo(`${baseUrl}/api/items.json`);
+      await browser.navigateTo(`${baseUrl}/list.html`);
+      await capture.stop();
+      await browser.navigateTo(`${baseUrl}/api/items.json`);
+      return capture.responses.map((response) => [
+        relativeUrl(response.url, baseUrl),
+        response.status,
+        response.body,
+      ]);
+    },
+  },
+  {
+    name: "browser.awaitResponse",
+    path: "/xhr.html",
+    expected: ["/api/items.json", { items: ["a", "b"] }],
+    run: async (browser, baseUrl) => {
+      const response = await browser.awaitResponse(
+        { url: "/api/", method: "GET" },
+        () => browser.selector("#load").click()
+      );
+      return [relativeUrl(response.url, baseUrl), response.body];
+    },
+  },
+  {
+    name: "browser.$eval",
+    path: "/list.html",
+    expected: 4,
+    run: async (browser) =>
+      await browser.$eval(
+        (selector: string) => document.querySelectorAll(selector).length,
+        ".item",
+        {}
+      ),
+  },
+  {
+    name: "browser.mouseActions.click",
+    path: "/mouse.html",
+    expected: ["click:20,30"],
+    run: async (browser) => {
+      await browser.mouseActions.click({ x: 20, y: 30 });
+      return await events(browser);
+    },
+  },
+  {
+    name: "browser.mouseActions.doubleClick",
+    path: "/mouse.html",
+    expected: ["dblclick:40,50"],
+    run: async (browser) => {
+      await browser.mouseActions.doubleClick({ x: 40, y: 50 });
+      return (await events(browser)).filter((e) => e.startsWith("dblclick"));
+    },
+  },
+  {
+    name: "browser.mouseActions.move",
+    path: "/mouse.html",
+    expected: "60,70",
+    run: async (browser) => {
+      await browser.mouseActions.move(60, 70, {});
+      return await browser.$eval(
+        () => document.body.dataset.mouse ?? null,
+        undefined,
+        {}
+      );
+    },
+  },
+  {
+    name: "browser.keyboardActions.press",
+    path: "/mouse.html",
+    expected: ["keydown:Enter", "keydown:a"],
+    run: async (browser) => {
+      await browser.keyboardActions.press("Enter");
+      await browser.keyboardActions.press("a");
+      return await events(browser);
+    },
+  },
+  {
+    name: "browser.scroll.down + up",
+    path: "/scroll.html",
+    expected: [true, true],
+    run: async (browser) => {
+      await browser.scroll.down();
+      const down = await browser.$eval(() => window.scrollY > 0, undefined, {});
+      await browser.scroll.up();
+      const up = await browser.$eval(() => window.scrollY === 0, undefined, {});
+      return [down, up];
+    },
+  },
+  {
+    name: "browser.scroll.right + left",
+    path: "/scroll.html",
+    expected: [true, true],
+    run: async (browser) => {
+      await browser.scroll.right();
+      const right = await browser.$eval(() => window.scrollX > 0, undefined, {});
+      await browser.scroll.left();
+      const left = await browser.$eval(
+        () => window.scrollX === 0,
+        undefined,
+        {}
+      );
+      return [right, left];
+    },
+  },
+  {
+    name: "browser.scroll.untilExhausted",
+    path: "/infinite.html",
+    expected: [0, 1, 2, 3, 4, 5, 6, 7, 8].map((index) => `post ${index}`),
+    run: async (browser) => {
+      const posts: string[] = [];
+      for await (const post of browser.scroll.untilExhausted({
+        itemSelector: ".post",
+        container: "#feed",
+        idleTimeout: 1000,
+      }))
+        posts.push(await post.getText());
+      return posts;
+    },
+  },
+  {
+    name: "browser.alert.getText",
+    path: "/alerts.html",
+    expected: "Hello alert",
+    run: async (browser) => {
+      // the dialog is left open, the runner closes the tab afterwards
+      await browser.selector("#alert").click();
+      return await browser.alert.getText();
+    },
+  },
+  {
+    name: "browser.alert.accept",
+    path: "/alerts.html",
+    expected: "true",
+    run: async (browser) => {
+      await browser.selector("#confirm").click();
+      await browser.alert.accept();
+      await browser.waitFor.timeout(100);
+      return await browser.selector("#result").getText();
+    },
+  },
+  {
+    name: "browser.alert.dismiss",
+    path: "/alerts.html",
+    expected: "false",
+    run: async (browser) => {
+      await browser.selector("#confirm").click();
+      await browser.alert.dismiss();
+      await browser.waitFor.timeout(100);
+      return await browser.selector("#result").getText();
+    },
+  },
+  {
+    name: "browser.alert.sendKeys",
+    path: "/alerts.html",
+    expected: "Ada",
+    run: async (browser) => {
+      await browser.selector("#prompt").click();
+      await browser.alert.sendKeys("Ada");
+      await browser.waitFor.timeout(100);
+      return await browser.selector("#result").getText();
+    },
+  },
+  {
+    name: "browser.waitFor.pageLoad",
+    path: "/index.html",
+    expected: "Fixture index",
+    run: async (browser) => {
+      await browser.waitFor.pageLoad();
+      return await browser.selector("#title").getText();
+    },
+  },
+  {
+    name: "browser.waitFor.timeout",
+    path: "/index.html",
+    expected: true,
+    run: async (browser) => {
+      const started = Date.now();
+      await browser.waitFor.timeout(200);
+      return Date.now() - started >= 200;
+    },
+  },
+  {
+    name: "browser.extract",
+    path: "/list.html",
+    expected: {
+      data: {
+        items: [
+          { id: 1, bold: null },
+          { id: 2, bold: "bold" },
+          { id: 3, bold: null },
+        ],
+        missing: null,
+      },
+      errors: [
+        {
+          field: "missing",
+          selector: "#missing",
+          message: "No element matched",
+        },
+      ],
+    },
+    run: async (browser) =>
+      await browser.extract({
+        items: {
+          selector: "#items .item",
+          list: true,
+          schema: {
+            id: { attribute: "data-id", transform: (id) => Number(id) },
+            bold: { selector: "b", optional: true },
+          },
+        },
+        missing: "#missing",
+      }),
+  },
+  {
+    name: "browser.selector in iframe",
+    path: "/iframe.html",
+    expected: ["Outer", 0],
+    run: async (browser) => [
+      await browser.selector("#title").getText(),
+      await browser.selector("#items").count(),
+    ],
+  },
+
+  // IBaseElement
+  {
+    name: "element.click",
+    path: "/form.html",
+    expected: ["click"],
+    run: async (browser) => {
+      await browser.selector("#target").click();
+      return await events(browser);
+    },
+  },
+  {
+    name: "element.doubleClick",
+    path: "/form.html",
+    expected: true,
+    run: async (browser) => {
+      await browser.selector("#target").doubleClick();
+      return (await events(browser)).includes("dblclick");
+    },
+  },
+  {
+    name: "element.rightClick",
+    path: "/form.html",
+    expected: ["contextmenu"],
+    run: async (browser) => {
+      await browser.selector("#target").rightClick();
+      return await events(browser);
+    },
+  },
+  {
+    name: "element.hover",
+    path: "/form.html",
+    expected: ["mouseover"],
+    run: async (browser) => {
+      await browser.selector("#target").hover();
+      return await events(browser);
+    },
+  },
+  {
+    name: "element.fill + getValue",
+    path: "/form.html",
+    expected: ["ada", "input:ada"],
+    run: async (browser) => {
+      await browser.selector("#username").fill("ada");
+      return [
+        await browser.selector("#username").getValue(),
+        (await events(browser)).pop(),
+      ];
+    },
+  },
+  {
+    name: "element.clear",
+    path: "/form.html",
+    expected: "",
+    run: async (browser) => {
+      await browser.selector("#username").clear();
+      return await browser.selector("#username").getValue();
+    },
+  },
+  {
+    name: "element.getValue on textarea",
+    path: "/form.html",
+    expected: "hello",
+    run: async (browser) => await browser.selector("#bio").getValue(),
+  },
+  {
+    name: "element.isEnabled",
+    path: "/form.html",
+    expected: [true, false],
+    run: async (browser) => [
+      await browser.selector("#username").isEnabled(),
+      await browser.selector("#password").isEnabled(),
+    ],
+  },
+  {
+    name: "element.selectOption by value + label",
+    path: "/select.html",
+    expected: ["banana", "apple", "cherry", ["change:apple", "change:cherry"]],
+    run: async (browser) => {
+      const select = browser.selector("#fruit");
+      const initial = await select.getValue();
+      await select.selectOption("apple");
+      const byValue = await select.getValue();
+      await select.selectOption("Red cherry");
+      return [initial, byValue, await select.getValue(), await events(browser)];
+    },
+  },
+  {
+    name: "element.isSelected",
+    path: "/checkbox.html",
+    expected: [true, false, false, true],
+    run: async (browser) =>
+      await browser
+        .selector("input")
+        .map(async (input) => await input.isSelected()),
+  },
+  {
+    name: "element.click toggles checkbox",
+    path: "/checkbox.html",
+    expected: true,
+    run: async (browser) => {
+      await browser.selector("#newsletter").click();
+      return await browser.selector("#newsletter").isSelected();
+    },
+  },
+  {
+    name: "element.isVisible",
+    path: "/list.html",
+    expected: [true, false, false],
+    run: async (browser) => [
+      await browser.selector("#items").isVisible(),
+      await browser.selector("#hidden").isVisible(),
+      await browser.selector("#missing").isVisible(),
+    ],
+  },
+  {
+    name: "element.getText",
+    path: "/list.html",
+    expected: "Two bold",
+    run: async (browser) => await browser.selector(".featured").getText(),
+  },
+  {
+    name: "element.getAttribute",
+    path: "/list.html",
+    expected: ["2", null],
+    run: async (browser) => [
+      await browser.selector(".featured").getAttribute("data-id"),
+      await browser.selector(".featured").getAttribute("missing"),
+    ],
+  },
+  {
+    name: "element.getCssValue",
+    path: "/list.html",
+    expected: "rgb(255, 0, 0)",
+    run: async (browser) => await browser.selector("#styled").getCssValue("color"),
+  },
+  {
+    name: "element.getTagName",
+    path: "/list.html",
+    expected: "ul",
+    run: async (browser) => await browser.selector("#items").getTagName(),
+  },
+  {
+    name: "element.getHTML",
+    path: "/list.html",
+    expected: "Two <b>bold</b>",
+    run: async (browser) => await browser.selector(".featured").getHTML(),
+  },
+  {
+    name: "element.extract",
+    path: "/list.html",
+    expected: { data: { id: "2", html: "Two <b>bold</b>" }, errors: [] },
+    run: async (browser) =>
+      await browser.selector(".featured").extract({
+        id: { attribute: "data-id" },
+        html: { html: true },
+      }),
+  },
+  {
+    name: "element.extractTable",
+    path: "/table.html",
+    expected: [
+      [
+        ["Name", "Price", "Price"],
+        ["Name", "Min", "Max"],
+        ["Apple", "1", "2"],
+        ["Banana", "1", "3"],
+        ["Total", "Total", "Total"],
+      ],
+      [
+        { Name: "Apple", "Price / Min": "1", "Price / Max": "2" },
+        { Name: "Banana", "Price / Min": "1", "Price / Max": "3" },
+        { Name: "Total", "Price / Min": "Total", "Price / Max": "Total" },
+      ],
+    ],
+    run: async (browser) => [
+      await browser.selector("#prices").extractTable(),
+      await browser.selector("#wrapper").extractTable({ format: "objects" }),
+    ],
+  },
+  {
+    name: "element.count",
+    path: "/list.html",
+    expected: [4, 0],
+    run: async (browser) => [
+      await browser.selector(".item").count(),
+      await browser.selector("#missing").count(),
+    ],
+  },
+  {
+    name: "element.nth",
+    path: "/list.html",
+    expected: "Three",
+    run: async (browser) => await browser.selector(".item").nth(2).getText(),
+  },
+  {
+    name: "element.selector",
+    path: "/list.html",
+    expected: [3, "One"],
+    run: async (browser) => {
+      const items = browser.selector("#items").selector(".item");
+      return [await items.count(), await items.nth(0).getText()];
+    },
+  },
+  {
+    name: "element.forEach",
+    path: "/list.html",
+    expected: ["0:1", "1:2", "2:3"],
+    run: async (browser) => {
+      const seen: string[] = [];
+      await browser.selector("#items .item").forEach(async (item, index) => {
+        seen.push(`${index}:${await item.getAttribute("data-id")}`);
+      });
+      return seen;
+    },
+  },
+  {
+    name: "element.filter",
+    path: "/list.html",
+    expected: [1, "2"],
+    run: async (browser) => {
+      const featured = await browser
+        .selector(".item")
+        .filter(async (item) =>
+          ((await item.getAttribute("class")) ?? "").includes("featured")
+        );
+      return [featured.length, await featured[0]?.getAttribute("data-id")];
+    },
+  },
+  {
+    name: "element.map",
+    path: "/list.html",
+    expected: ["1", "2", "3", "4"],
+    run: async (browser) =>
+      await browser
+        .selector(".item")
+        .map(async (item) => await item.getAttribute("data-id")),
+  },
+  {
+    name: "element.takeScreenshot",
+    path: "/list.html",
+    expected: true,
+    run: async (browser) => {
+      const file = join(tmpdir(), `conformance-${Date.now()}.png`);
+      await browser.selector("#items").takeScreenshot(file);
+      const written = existsSync(file) && statSync(file).size > 0;
+      if (existsSync(file)) unlinkSync(file);
+      return written;
+    },
+  },
+  {
+    name: "element.selector types",
+    path: "/form.html",
+    expected: ["initial", "Sign in", "button", "hello"],
+    run: async (browser) => [
+      await browser.selector("username", "id").getValue(),
+      await browser.selector("//button[@id='submit']").getText(),
+      await browser.selector("Sign in", "text").getTagName(),
+      await browser.selector("textarea", "tag").getValue(),
+    ],
+  },
+
+  // Helpers
+  {
+    name: "paginate next",
+    path: "/feed.html",
+    expected: [
+      [1, "/feed.html", ["a", "b"]],
+      [2, "/feed.html", ["c", "d"]],
+      [3, "/feed.html", ["e"]],
+    ],
+    run: async (browser, baseUrl) =>
+      await collectPages(browser, baseUrl, {
+        mode: "next",
+        nextSelector: "#next",
+        changeSelector: "#entries",
+        extract: entries,
+      }),
+  },
+  {
+    name: "paginate url",
+    path: "/index.html",
+    expected: [
+      [1, "/pages/1.html", ["a", "b"]],
+      [2, "/pages/2.html", ["c", "d"]],
+      [3, "/pages/3.html", ["e"]],
+    ],
+    run: async (browser, baseUrl) =>
+      await collectPages(browser, baseUrl, {
+        mode: "url",
+        urlTemplate: `${baseUrl}/pages/{page}.html`,
+        extract: entries,
+      }),
+  },
+  {
+    name: "paginate relNext",
+    path: "/pages/1.html",
+    expected: [
+      [1, "/pages/1.html", ["a", "b"]],
+      [2, "/pages/2.html", ["c", "d"]],
+    ],
+    run: async (browser, baseUrl) =>
+      await collectPages(browser, baseUrl, {
+        mode: "relNext",
+        extract: entries,
+        stopWhen: (data) => data.includes("d"),
+      }),
+  },
+  {
+    name: "crawl",
+    path: "/index.html",
+    expected: {
+      handled: ["0:a,b", "1:c,d"],
+      visited: ["/pages/1.html", "/pages/2.html"],
+      errors: [["/missing.html", "navigation", "NavigationError"]],
+      skipped: [["/pages/3.html", "maxDepth"]],
+    },
+    run: async (browser, baseUrl) => {
+      const handled: string[] = [];
+      const report = await crawl(browser, {
+        seeds: [`${baseUrl}/pages/1.html#top`, `${baseUrl}/missing.html`],
+        maxDepth: 1,
+        handler: async (page, { depth }) => {
+          handled.push(`${depth}:${(await entries(page)).join(",")}`);
+        },
+      });
+      return {
+        handled,
+        visited: report.visited.map(({ url }) => relativeUrl(url, baseUrl)),
+        errors: report.errors.map(({ url, stage, error }) => [
+          relativeUrl(url, baseUrl),
+          stage,
+          error.name,
+        ]),
+        skipped: report.skipped.map(({ url, reason }) => [
+          relativeUrl(url, baseUrl),
+          reason,
+        ]),
+      };
+    },
+  },
+  {
+    name: "PagePool",
+    path: "/index.html",
+    expected: [["a", "b"], ["c", "d"], ["e"], "NavigationError"],
+    run: async (browser, baseUrl) => {
+      const pool = new PagePool(browser, { concurrency: 2, recycleAfter: 1 });
+      const results = await pool.runAll(
+        [1, 2, 3, 5].map((index) => async (page: IBaseBrowser) => {
+          await page.navigateTo(`${baseUrl}/pages/${index}.html`);
+          return await entries(page);
+        })
+      );
+      await pool.close();
+      return results.map((result) =>
+        result.ok ? result.value : result.error.name
+      );
+    },
+  },
+];
@@ -0,0 +1,230 @@
+/**
+ * Pages and JSON documents served by the conformance fixture server, keyed by path
+ */
+
+const page = (title: string, body: string, script = ""): string =>
+  `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${title}</title>
+  </head>
+  <body>
+${body}
+    <pre id="events"></pre>
+    <script>
+      const log = (entry) => {
+        document.getElementById("events").textContent += entry + "\\n";
+      };
+${script}
+    </script>
+  </body>
+</html>`;
+
+const listingPage = (index: number, entries: string[], hasNext: boolean) =>
+  page(
+    `Page ${index}`,
+    `    <ul id="entries">
+${entries.map((entry) => `      <li class="entry">${entry}</li>`).join("\n")}
+    </ul>
+    ${hasNext ? `<a id="next" rel="next" href="${index + 1}.html">Next</a>` : ""}`
+  );
+
+export const fixtures: Record<string, string> = {
+  "/index.html": page(
+    "Index",
+    `    <h1 id="title">Fixture index</h1>
+    <a id="to-list" href="/list.html">List</a>
+    <a id="to-form" href="/form.html">Form</a>`
+  ),
+
+  "/form.html": page(
+    "Form",
+    `    <form id="login" action="/submitted.html" method="get">
+      <label for="username">Username</label>
+      <input id="username" name="username" value="initial" />
+      <input id="password" name="password" type="password" disabled />
+      <textarea id="bio" name="bio">hello</textarea>
+      <button id="submit" type="submit">Sign in</button>
+    </form>
+    <button id="target" type="button">Target</button>`,
+    `      const target = document.getElementById("target");
+      target.addEventListener("click", () => log("click"));
+      target.addEventListener("dblclick", () => log("dblclick"));
+      target.addEventListener("contextmenu", (e) => {
+        e.preventDefault();
+        log("contextmenu");
+      });
+      target.addEventListener("mouseover", () => log("mouseover"));
+      document
+        .getElementById("username")
+        .addEventListener("input", (e) => log("input:" + e.target.value));`
+  ),
+
+  "/submitted.html": page("Submitted", `    <h1 id="title">Submitted</h1>`),
+
+  "/select.html": page(
+    "Select",
+    `    <select id="fruit" name="fruit">
+      <option value="apple">Apple</option>
+      <option value="banana" selected>Banana</option>
+      <option value="cherry" label="Red cherry">Cherry</option>
+    </select>`,
+    `      document
+        .getElementById("fruit")
+        .addEventListener("change", (e) => log("change:" + e.target.value));`
+  ),
+
+  "/checkbox.html": page(
+    "Checkbox",
+    `    <input id="agree" type="checkbox" checked />
+    <input id="newsletter" type="checkbox" />
+    <input id="plan-free" type="radio" name="plan" value="free" />
+    <input id="plan-pro" type="radio" name="plan" value="pro" checked />`
+  ),
+
+  "/list.html": page(
+    "List",
+    `    <ul id="items">
+      <li class="item" data-id="1">One</li>
+      <li class="item featured" data-id="2">Two <b>bold</b></li>
+      <li class="item" data-id="3">Three</li>
+    </ul>
+    <ul id="other">
+      <li class="item" data-id="4">Four</li>
+    </ul>
+    <p id="hidden" style="display: none">Hidden</p>
+    <p id="styled" style="color: rgb(255, 0, 0)">Styled</p>`
+  ),
+
+  "/tabs.html": page(
+    "Tabs",
+    `    <h1 id="title">First tab</h1>
+    <a id="second" href="/second.html" target="_blank">Second</a>`
+  ),
+
+  "/second.html": page("Second", `    <h1 id="title">Second tab</h1>`),
+
+  "/alerts.html": page(
+    "Alerts",
+    `    <button id="alert" type="button">Alert</button>
+    <button id="confirm" type="button">Confirm</button>
+    <button id="prompt" type="button">Prompt</button>
+    <p id="result"></p>`,
+    `      // dialogs open after a delay so the backends can start waiting for them first
+      const later = (open) => () =>
+        setTimeout(() => {
+          document.getElementById("result").textContent = String(open());
+        }, 300);
+      document
+        .getElementById("alert")
+        .addEventListener("click", later(() => alert("Hello alert")));
+      document
+        .getElementById("confirm")
+        .addEventListener("click", later(() => confirm("Continue?")));
+      document
+        .getElementById("prompt")
+        .addEventListener("click", later(() => prompt("Your name?")));`
+  ),
+
+  "/iframe.html": page(
+    "Iframe",
+    `    <h1 id="title">Outer</h1>
+    <iframe id="frame" src="/list.html"></iframe>`
+  ),
+
+  "/mouse.html": page(
+    "Mouse",
+    `    <div id="pad" style="position: fixed; inset: 0"></div>`,
+    `      const pad = document.getElementById("pad");
+      pad.addEventListener("click", (e) => log("click:" + e.clientX + "," + e.clientY));
+      pad.addEventListener("dblclick", (e) => log("dblclick:" + e.clientX + "," + e.clientY));
+      pad.addEventListener("mousemove", (e) => {
+        document.body.dataset.mouse = e.clientX + "," + e.clientY;
+      });
+      document.addEventListener("keydown", (e) => log("keydown:" + e.key));`
+  ),
+
+  "/scroll.html": page(
+    "Scroll",
+    `    <div id="tall" style="height: 5000px; width: 5000px">Tall</div>`
+  ),
+
+  "/table.html": page(
+    "Table",
+    `    <div id="wrapper">
+      <table id="prices">
+        <thead>
+          <tr><th rowspan="2">Name</th><th colspan="2">Price</th></tr>
+          <tr><th>Min</th><th>Max</th></tr>
+        </thead>
+        <tbody>
+          <tr><td>Apple</td><td rowspan="2">1</td><td>2</td></tr>
+          <tr><td>Banana</td><td>3</td></tr>
+          <tr><td colspan="3">Total</td></tr>
+        </tbody>
+      </table>
+    </div>`
+  ),
+
+  "/pages/1.html": listingPage(1, ["a", "b"], true),
+  "/pages/2.html": listingPage(2, ["c", "d"], true),
+  "/pages/3.html": listingPage(3, ["e"], false),
+  "/pages/4.html": listingPage(4, [], false),
+
+  "/feed.html": page(
+    "Feed",
+    `    <ul id="entries">
+      <li class="entry">a</li>
+      <li class="entry">b</li>
+    </ul>
+    <button id="next">Next</button>`,
+    `      const batches = [["c", "d"], ["e"]];
+      const next = document.getElementById("next");
+      next.addEventListener("click", () => {
+        const batch = batches.shift();
+        document.getElementById("entries").innerHTML = batch
+          .map((entry) => '<li class="entry">' + entry + "</li>")
+          .join("");
+        next.disabled = batches.length === 0;
+      });`
+  ),
+
+  "/xhr.html": page(
+    "XHR",
+    `    <button id="load">Load</button>
+    <span id="result"></span>`,
+    `      document.getElementById("load").addEventListener("click", async () => {
+        const response = await fetch("/api/items.json");
+        const { items } = await response.json();
+        document.getElementById("result").textContent = items.join(",");
+      });`
+  ),
+
+  "/api/items.json": JSON.stringify({ items: ["a", "b"] }),
+
+  "/infinite.html": page(
+    "Infinite",
+    `    <div id="feed" style="height: 100px; overflow: auto">
+      <div class="post" style="height: 50px">post 0</div>
+      <div class="post" style="height: 50px">post 1</div>
+      <div class="post" style="height: 50px">post 2</div>
+    </div>`,
+    `      const feed = document.getElementById("feed");
+      let batches = 0;
+      feed.addEventListener("scroll", () => {
+        const bottom = feed.scrollTop + feed.clientHeight >= feed.scrollHeight - 10;
+        if (!bottom || batches === 2) return;
+        batches++;
+        setTimeout(() => {
+          for (let i = 0; i < 3; i++) {
+            const post = document.createElement("div");
+            post.className = "post";
+            post.style.height = "50px";
+            post.textContent = "post " + feed.children.length;
+            feed.appendChild(post);
+          }
+        }, 200);
+      });`
+  ),
+};
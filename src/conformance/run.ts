@@ -0,0 +1,195 @@
+import { frameworkSelector } from "../frameworks/frameworkFascade";
+import { BackendUnsupportedError } from "../frameworks/common/errors";
+import { IBaseBrowser } from "../types/interfaces/baseBrowser";
+import { baseConfig } from "../types/interfaces/baseConfig";
+import { ConformanceCase, conformanceCases } from "./cases";
+import { startFixtureServer } from "./server";
+
+const backends = {
+  playwright: frameworkSelector.playwright,
+  puppeteer: frameworkSelector.puppeteer,
+  selenium: frameworkSelector.selenium,
+  static: frameworkSelector.static,
+};
+
+type Backend = keyof typeof backends;
+
+interface CaseOutcome {
+  status: "value" | "threw" | "unsupported";
+  value?: unknown;
+  errorName?: string;
+  error?: string;
+}
+
+type Expectation = Pick<ConformanceCase, "name" | "expected" | "throws">;
+
+const config: baseConfig = {
+  headless: true,
+  logs: false,
+  throwOnFail: true,
+};
+
+// guards against backends that hang instead of failing
+const CASE_TIMEOUT = 30000;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Case did not finish within ${ms}ms`)),
+      ms
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+const toOutcome = (error: unknown): CaseOutcome => {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    status: error instanceof BackendUnsupportedError ? "unsupported" : "threw",
+    errorName: error instanceof Error ? error.name : undefined,
+    error: message.split("\n")[0],
+  };
+};
+
+const meetsExpectation = (
+  expectation: Expectation,
+  outcome: CaseOutcome
+): boolean =>
+  expectation.throws !== undefined
+    ? outcome.status === "threw" && outcome.errorName === expectation.throws
+    : outcome.status === "value" &&
+      JSON.stringify(outcome.value) === JSON.stringify(expectation.expected);
+
+const describeExpectation = (expectation: Expectation): string =>
+  expectation.throws !== undefined
+    ? `throws ${expectation.throws}`
+    : JSON.stringify(expectation.expected) ?? "undefined";
+
+const describe = (outcome: CaseOutcome | undefined): string => {
+  if (!outcome) return "not run";
+  if (outcome.status === "value")
+    return JSON.stringify(outcome.value) ?? "undefined";
+  return `${outcome.status}: ${outcome.errorName}: ${outcome.error}`;
+};
+
+const runBackend = async (
+  backend: Backend,
+  baseUrl: string
+): Promise<Map<string, CaseOutcome>> => {
+  const outcomes = new Map<string, CaseOutcome>();
+  let browser: IBaseBrowser;
+  try {
+    browser = await backends[backend](config);
+  } catch (error) {
+    console.log(`[${backend}] could not be launched: ${toOutcome(error).error}`);
+    return outcomes;
+  }
+  // tab 0 stays open so closing a case's tab never closes the browser
+  await browser.navigateTo(`${baseUrl}/index.html`);
+  for (const conformanceCase of conformanceCases) {
+    try {
+      await browser.openTab(`${baseUrl}${conformanceCase.path}`);
+      const value = await withTimeout(
+        conformanceCase.run(browser, baseUrl),
+        CASE_TIMEOUT
+      );
+      outcomes.set(conformanceCase.name, { status: "value", value });
+    } catch (error) {
+      outcomes.set(conformanceCase.name, toOutcome(error));
+    }
+    try {
+      await browser.closeTab();
+      await browser.switchToTab(0);
+    } catch (error) {
+      console.log(`[${backend}] could not reset tabs: ${toOutcome(error).error}`);
+    }
+  }
+  try {
+    await browser.closeBrowser();
+    outcomes.set("browser.closeBrowser", { status: "value" });
+  } catch (error) {
+    outcomes.set("browser.closeBrowser", toOutcome(error));
+  }
+  return outcomes;
+};
+
+/**
+ * Runs every conformance case against the selected backends and reports the outcomes that differ from the expected ones,
+ * cases a backend doesn't support are skipped
+ *
+ * usage: yarn conformance [playwright] [puppeteer] [selenium] [static]
+ */
+const main = async () => {
+  const selected = (
+    process.argv.length > 2 ? process.argv.slice(2) : Object.keys(backends)
+  ) as Backend[];
+  const unknown = selected.filter((backend) => !(backend in backends));
+  if (unknown.length) {
+    throw new Error(
+      `Unknown backend ${unknown.join(", ")}, expected one of ${Object.keys(
+        backends
+      ).join(", ")}`
+    );
+  }
+
+  const server = await startFixtureServer();
+  const results = new Map<Backend, Map<string, CaseOutcome>>();
+  try {
+    for (const backend of selected) {
+      results.set(backend, await runBackend(backend, server.url));
+    }
+  } finally {
+    await server.close();
+  }
+
+  const launched = selected.filter((backend) => results.get(backend)?.size);
+  if (!launched.length) {
+    console.log("No backend could be launched");
+    process.exitCode = 1;
+    return;
+  }
+  const expectations: Expectation[] = [
+    ...conformanceCases,
+    { name: "browser.closeBrowser" },
+  ];
+
+  let failures = 0;
+  for (const backend of launched) {
+    const outcomes = results.get(backend) as Map<string, CaseOutcome>;
+    const count = (status: CaseOutcome["status"]) =>
+      [...outcomes.values()].filter((outcome) => outcome.status === status)
+        .length;
+    console.log(
+      `\n[${backend}] ${count("value")} returned, ${count("threw")} threw, ${count(
+        "unsupported"
+      )} unsupported`
+    );
+    for (const expectation of expectations) {
+      const actual = outcomes.get(expectation.name);
+      if (actual?.status === "unsupported") continue;
+      if (actual && meetsExpectation(expectation, actual)) continue;
+      failures++;
+      console.log(`  ${expectation.name}`);
+      console.log(`    expected: ${describeExpectation(expectation)}`);
+      console.log(`    ${backend}: ${describe(actual)}`);
+    }
+  }
+
+  console.log(
+    `\n${failures} unexpected outcome(s) across ${launched.length} backend(s)`
+  );
+  if (failures) process.exitCode = 1;
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,39 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { fixtures } from "./fixtures";
+
+export interface FixtureServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+/**
+ * Serves the conformance fixtures on a random local port
+ *
+ * @returns The base URL of the server and a function to stop it
+ */
+export const startFixtureServer = async (): Promise<FixtureServer> => {
+  const server = http.createServer((request, response) => {
+    const path = new URL(request.url ?? "/", "http://localhost").pathname;
+    const body = fixtures[path === "/" ? "/index.html" : path];
+    if (body === undefined) {
+      response.writeHead(404, { "content-type": "text/plain" });
+      response.end("Not found");
+      return;
+    }
+    const contentType = path.endsWith(".json")
+      ? "application/json"
+      : "text/html; charset=utf-8";
+    response.writeHead(200, { "content-type": contentType });
+    response.end(body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+};
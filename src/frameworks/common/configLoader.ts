@@ -0,0 +1,297 @@
+import { existsSync, readFileSync } from "fs";
+import { extname, resolve } from "path";
+import { parse as parseYaml } from "yaml";
+import { baseConfig, configOverrides } from "../../types/interfaces/baseConfig";
+import { createLogger } from "./loggers";
+
+/**
+ * Describes how a config option is read from an environment variable and validated
+ */
+interface ConfigField {
+  fromEnv: (raw: string) => unknown;
+  validate: (value: unknown) => string | undefined;
+}
+
+export interface loadConfigOptions {
+  /**
+   * Path to a JSON or YAML config file, defaults to SCRAPER_CONFIG or the first scraper.config.* file in the working directory
+   */
+  file?: string;
+  /**
+   * Environment to read SCRAPER_* variables from, defaults to process.env
+   */
+  env?: Record<string, string | undefined>;
+}
+
+export const ENV_PREFIX = "SCRAPER_";
+
+const DEFAULT_CONFIG_FILES = [
+  "scraper.config.json",
+  "scraper.config.yaml",
+  "scraper.config.yml",
+];
+
+const booleanField: ConfigField = {
+  fromEnv: (raw) => {
+    const value = raw.trim().toLowerCase();
+    if (["true", "1", "yes"].includes(value)) return true;
+    if (["false", "0", "no"].includes(value)) return false;
+    return raw;
+  },
+  validate: (value) =>
+    typeof value === "boolean" ? undefined : "must be a boolean",
+};
+
+const timeoutField: ConfigField = {
+  fromEnv: (raw) => (raw.trim() === "" ? raw : Number(raw)),
+  validate: (value) =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0
+      ? undefined
+      : "must be a non-negative number",
+};
+
+const stringField: ConfigField = {
+  fromEnv: (raw) => raw,
+  validate: (value) =>
+    typeof value === "string" && value.length > 0
+      ? undefined
+      : "must be a non-empty string",
+};
+
+const enumField = (values: readonly string[]): ConfigField => ({
+  fromEnv: (raw) => raw.trim(),
+  validate: (value) =>
+    values.includes(value as string)
+      ? undefined
+      : `must be one of ${values.join(", ")}, got ${JSON.stringify(value)}`,
+});
+
+const loggerField: ConfigField = {
+  fromEnv: (raw) => raw,
+  validate: (value) =>
+    typeof (value as any)?.log === "function"
+      ? undefined
+      : "must be an object with a log function",
+};
+
+const countField: ConfigField = {
+  fromEnv: (raw) => (raw.trim() === "" ? raw : Number(raw)),
+  validate: (value) =>
+    Number.isInteger(value) && (value as number) >= 0
+      ? undefined
+      : "must be a non-negative integer",
+};
+
+const limitField: ConfigField = {
+  fromEnv: (raw) => (raw.trim() === "" ? raw : Number(raw)),
+  validate: (value) =>
+    Number.isInteger(value) && (value as number) > 0
+      ? undefined
+      : "must be a positive integer",
+};
+
+const retryOnField: ConfigField = {
+  fromEnv: (raw) =>
+    raw
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+  validate: (value) =>
+    typeof value === "function" ||
+    (Array.isArray(value) &&
+      value.every(
+        (entry) => typeof entry === "function" || typeof entry === "string"
+      ))
+      ? undefined
+      : "must be a function or a list of error classes or error class names",
+};
+
+const proxyProblem = (value: unknown): string | undefined => {
+  const proxy = value as Record<string, unknown>;
+  if (typeof proxy !== "object" || proxy === null)
+    return "must be an object with a server";
+  if (typeof proxy.server !== "string" || !proxy.server)
+    return "must have a non-empty server";
+  if (
+    proxy.bypass !== undefined &&
+    !(
+      Array.isArray(proxy.bypass) &&
+      proxy.bypass.every((host) => typeof host === "string")
+    )
+  )
+    return "bypass must be a list of hosts";
+  for (const key of ["username", "password"])
+    if (proxy[key] !== undefined && typeof proxy[key] !== "string")
+      return `${key} must be a string`;
+  return undefined;
+};
+
+/**
+ * Reads a proxy URL, its credentials are moved out of the server
+ */
+const proxyFromUrl = (raw: string): unknown => {
+  try {
+    const url = new URL(raw.trim());
+    const server = `${url.protocol}//${url.host}`;
+    if (!url.username) return { server };
+    return {
+      server,
+      username: decodeURIComponent(url.username),
+      password: decodeURIComponent(url.password),
+    };
+  } catch {
+    return raw;
+  }
+};
+
+const proxyField: ConfigField = {
+  fromEnv: proxyFromUrl,
+  validate: proxyProblem,
+};
+
+const proxiesField: ConfigField = {
+  fromEnv: (raw) =>
+    raw
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map(proxyFromUrl),
+  validate: (value) => {
+    if (!Array.isArray(value) || !value.length)
+      return "must be a non-empty list of proxies";
+    const problems = value
+      .map((proxy, index) => {
+        const problem = proxyProblem(proxy);
+        return problem && `entry ${index} ${problem}`;
+      })
+      .filter(Boolean);
+    return problems.length ? problems.join(", ") : undefined;
+  },
+};
+
+/**
+ * Every baseConfig option must be registered here to be loadable from files and the environment
+ */
+const configFields: { [K in keyof Required<baseConfig>]: ConfigField } = {
+  browser: enumField(["chromium", "firefox", "webkit"]),
+  headless: booleanField,
+  actionTimeout: timeoutField,
+  logs: booleanField,
+  throwOnFail: booleanField,
+  driverPath: stringField,
+  webdriverUrl: stringField,
+  logLevel: enumField(["debug", "info", "warn", "error"]),
+  logFormat: enumField(["text", "json"]),
+  logFile: stringField,
+  logger: loggerField,
+  retries: countField,
+  retryDelay: timeoutField,
+  retryBackoff: enumField(["fixed", "exponential", "jitter"]),
+  retryOn: retryOnField,
+  respectRobotsTxt: booleanField,
+  robotsUserAgent: stringField,
+  robotsDisallowed: enumField(["error", "skip"]),
+  rateLimit: limitField,
+  rateLimitInterval: timeoutField,
+  navigationDelay: timeoutField,
+  navigationJitter: timeoutField,
+  maxConcurrentNavigations: limitField,
+  recordHar: stringField,
+  replayHar: stringField,
+  proxy: proxyField,
+  proxies: proxiesField,
+  proxyRotation: enumField(["context", "tab"]),
+  proxyCooldown: timeoutField,
+  restoreSession: stringField,
+};
+
+/**
+ * Converts a config key to its environment variable name, e.g. actionTimeout -> SCRAPER_ACTION_TIMEOUT
+ */
+export const toEnvName = (key: string): string =>
+  ENV_PREFIX + key.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+
+/**
+ * Checks a partial config against the baseConfig shape and throws a single error listing every problem
+ *
+ * @param config - The config to validate
+ * @param source - Where the config came from, used in the error message
+ *
+ * @returns The validated config
+ */
+export const validateConfig = (config: unknown, source: string): baseConfig => {
+  if (typeof config !== "object" || config === null || Array.isArray(config))
+    throw new Error(`Invalid config from ${source}: expected an object`);
+  const problems = Object.entries(config).flatMap(([key, value]) => {
+    if (value === undefined) return [];
+    const field = configFields[key as keyof baseConfig];
+    if (!field) return [`unknown option "${key}"`];
+    const problem = field.validate(value);
+    return problem ? [`${key} ${problem}`] : [];
+  });
+  if (problems.length)
+    throw new Error(`Invalid config from ${source}: ${problems.join("; ")}`);
+  //undefined values would otherwise override the layers below when they are merged
+  return Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  ) as baseConfig;
+};
+
+/**
+ * Reads a JSON or YAML config file, the format is picked from the file extension
+ */
+export const readConfigFile = (file: string): baseConfig => {
+  const contents = readFileSync(file, "utf8");
+  const parsed = [".yaml", ".yml"].includes(extname(file).toLowerCase())
+    ? parseYaml(contents)
+    : JSON.parse(contents);
+  return validateConfig(parsed ?? {}, file);
+};
+
+/**
+ * Reads every SCRAPER_* variable that maps to a config option
+ */
+export const readConfigEnv = (
+  env: Record<string, string | undefined>
+): baseConfig => {
+  const config: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(configFields)) {
+    const raw = env[toEnvName(key)];
+    if (raw !== undefined) config[key] = field.fromEnv(raw);
+  }
+  return validateConfig(config, "environment");
+};
+
+const findConfigFile = (
+  env: Record<string, string | undefined>
+): string | undefined => {
+  const fromEnv = env[`${ENV_PREFIX}CONFIG`];
+  if (fromEnv) return fromEnv;
+  return DEFAULT_CONFIG_FILES.map((file) => resolve(file)).find((file) =>
+    existsSync(file)
+  );
+};
+
+/**
+ * Resolves the config of a browser instance by layering the defaults, a config file,
+ * SCRAPER_* environment variables and the programmatic overrides, in that order.
+ * The logger is created here once so every action of the instance shares it
+ *
+ * @param overrides - Optional. Config values that take precedence over every other source
+ * @param options - Optional. Where to read the config file and environment from
+ *
+ * @returns The resolved config
+ */
+export const loadConfig = (
+  overrides: baseConfig = {},
+  options: loadConfigOptions = {}
+): Readonly<baseConfig> => {
+  const env = options.env ?? process.env;
+  const file = options.file ?? findConfigFile(env);
+  const config = configOverrides({
+    ...(file ? readConfigFile(file) : {}),
+    ...readConfigEnv(env),
+    ...validateConfig(overrides, "overrides"),
+  });
+  return Object.freeze({ ...config, logger: createLogger(config) });
+};
@@ -0,0 +1,186 @@
+import { IBaseBrowser } from "../../types/interfaces/baseBrowser";
+import {
+  crawlError,
+  crawlOptions,
+  crawlReport,
+  crawledPage,
+  skipReason,
+} from "../../types/interfaces/baseCrawler";
+import { RobotsDisallowedError } from "./errors";
+import { matchesUrl, pickActionOptions, readOptions } from "./utils";
+
+interface queuedUrl {
+  url: string;
+  depth: number;
+  referrer?: string;
+}
+
+/**
+ * Drops the fragment and sorts the query so equivalent URLs are visited once,
+ * the host, default port and percent-encoding are already normalized by URL
+ */
+export const normalizeUrl = (url: string, base?: string): string => {
+  const parsed = new URL(url, base);
+  parsed.hash = "";
+  parsed.searchParams.sort();
+  return parsed.toString();
+};
+
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
+const readLinks = async (
+  browser: IBaseBrowser,
+  selector: string,
+  timeout?: number
+): Promise<string[]> => {
+  const options = readOptions(timeout);
+  const links = browser.selector(selector);
+  const hrefs: string[] = [];
+  const count = await links.count(options);
+  for (let i = 0; i < count; i++) {
+    const href = await links.nth(i).getAttribute("href", options);
+    if (href) hrefs.push(href);
+  }
+  return hrefs;
+};
+
+/**
+ * Visits the seeds and the links found on them breadth first, in the current tab of the browser.
+ * Failed pages are reported and the crawl goes on
+ *
+ * @param browser - The browser used to visit the pages
+ * @param options - The seeds, the handler and the rules deciding which links are followed
+ *
+ * @returns The visited pages, the errors and the URLs that were skipped with their reason
+ */
+export const crawl = async (
+  browser: IBaseBrowser,
+  options: crawlOptions
+): Promise<crawlReport> => {
+  const {
+    linkSelector = "a",
+    include,
+    exclude = [],
+    sameDomain = true,
+    maxDepth = Infinity,
+    maxPages = Infinity,
+    timeout,
+  } = options;
+  //navigation failures are collected in the report instead of being thrown
+  const navigationOptions = {
+    ...pickActionOptions(options),
+    throwOnFail: true,
+  };
+  const report: crawlReport = { visited: [], errors: [], skipped: [] };
+  const seen = new Set<string>();
+  const queue: queuedUrl[] = [];
+  const domains = new Set<string>();
+
+  const skipReasonOf = (url: URL, depth: number): skipReason | undefined => {
+    if (url.protocol !== "http:" && url.protocol !== "https:")
+      return "protocol";
+    if (sameDomain && !domains.has(url.hostname)) return "offDomain";
+    if (matchesUrl(url.href, exclude)) return "excluded";
+    if (include && !matchesUrl(url.href, include)) return "notIncluded";
+    if (depth > maxDepth) return "maxDepth";
+    return undefined;
+  };
+
+  const enqueue = (
+    href: string,
+    depth: number,
+    referrer?: string,
+    base?: string
+  ) => {
+    let url: URL;
+    try {
+      url = new URL(normalizeUrl(href, base));
+    } catch {
+      if (seen.has(href)) return;
+      seen.add(href);
+      report.skipped.push({ url: href, reason: "invalid", referrer });
+      return;
+    }
+    if (seen.has(url.href)) return;
+    seen.add(url.href);
+    const reason = skipReasonOf(url, depth);
+    if (reason) report.skipped.push({ url: url.href, reason, referrer });
+    else queue.push({ url: url.href, depth, referrer });
+  };
+
+  //disallowed URLs are skipped whether the browser throws or skips them
+  const skipRobots = ({ url, referrer }: queuedUrl) =>
+    report.skipped.push({ url, reason: "robots", referrer });
+
+  for (const seed of options.seeds) {
+    try {
+      domains.add(new URL(seed).hostname);
+    } catch {
+      //reported as invalid when the seed is queued
+    }
+  }
+  for (const seed of options.seeds) enqueue(seed, 0);
+
+  let attempts = 0;
+  for (let next = queue.shift(); next; next = queue.shift()) {
+    if (attempts >= maxPages) {
+      report.skipped.push({
+        url: next.url,
+        reason: "maxPages",
+        referrer: next.referrer,
+      });
+      continue;
+    }
+
+    let finalUrl: string;
+    try {
+      if (!(await browser.navigateTo(next.url, navigationOptions))) {
+        skipRobots(next);
+        continue;
+      }
+      attempts++;
+      finalUrl = await browser.getUrl(readOptions(timeout));
+    } catch (error) {
+      if (error instanceof RobotsDisallowedError) {
+        skipRobots(next);
+        continue;
+      }
+      attempts++;
+      report.errors.push({
+        url: next.url,
+        depth: next.depth,
+        stage: "navigation",
+        error: toError(error),
+      });
+      continue;
+    }
+
+    const page: crawledPage = { ...next, finalUrl };
+    const failed = (stage: crawlError["stage"], error: unknown) =>
+      report.errors.push({
+        url: page.url,
+        depth: page.depth,
+        stage,
+        error: toError(error),
+      });
+    //redirects to a page already queued don't visit it twice
+    seen.add(normalizeUrl(page.finalUrl));
+    report.visited.push(page);
+
+    try {
+      await options.handler?.(browser, page);
+    } catch (error) {
+      failed("handler", error);
+    }
+
+    try {
+      const links = await readLinks(browser, linkSelector, timeout);
+      for (const href of links)
+        enqueue(href, page.depth + 1, page.url, page.finalUrl);
+    } catch (error) {
+      failed("links", error);
+    }
+  }
+  return report;
+};
@@ -0,0 +1,268 @@
+import { appendFileSync, truncateSync, writeFileSync } from "fs";
+import { extname } from "path";
+import {
+  IDatasetSink,
+  datasetRecord,
+  datasetSinkOptions,
+} from "../../types/interfaces/baseDataset";
+
+interface openFile {
+  path: string;
+  /**
+   * Size of the file without its closing text, which is rewritten after every flush
+   */
+  bytes: number;
+  /**
+   * Bytes of the file already on disk, its closing text excluded
+   */
+  written: number;
+  records: number;
+}
+
+const rotatedPath = (path: string, index: number): string => {
+  if (index === 0) return path;
+  const extension = extname(path);
+  return `${path.slice(0, path.length - extension.length)}.${index}${extension}`;
+};
+
+/**
+ * Streams records to a file and rotates it, the closing text of the format is written after
+ * every flush so the file stays valid if the process stops before the sink is closed
+ */
+abstract class FileSink implements IDatasetSink {
+  private buffer: datasetRecord[] = [];
+  private current?: openFile;
+  private pending = "";
+  private files = 0;
+  private closed = false;
+
+  protected separator = "";
+  protected closing = "";
+
+  constructor(protected options: datasetSinkOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Text a new file starts with, batch holds the records about to be written
+   */
+  protected abstract opening(batch: datasetRecord[]): string;
+
+  protected abstract serialize(record: datasetRecord): string;
+
+  /**
+   * Contents of the file of a sink closed without records
+   */
+  protected empty(): string {
+    return this.opening([]) + this.closing;
+  }
+
+  public write(record: datasetRecord): void {
+    if (this.closed)
+      throw new Error(`The dataset sink of ${this.options.path} is closed`);
+    this.buffer.push(record);
+    if (this.buffer.length >= (this.options.bufferSize ?? 100)) this.flush();
+  }
+
+  public flush(): void {
+    const batch = this.buffer.splice(0);
+    for (const record of batch) {
+      //the opening text fixes the columns the record is serialized with
+      if (!this.current) this.open(batch);
+      const serialized = this.serialize(record);
+      if (this.isFull(this.current as openFile, serialized)) {
+        this.writePending();
+        this.open(batch);
+      }
+      const file = this.current as openFile;
+      const text = (file.records ? this.separator : "") + serialized;
+      this.pending += text;
+      file.bytes += Buffer.byteLength(text);
+      file.records++;
+    }
+    this.writePending();
+  }
+
+  public close(): void {
+    if (this.closed) return;
+    this.flush();
+    //a sink without records still writes its file, so no results can be told apart from a sink that never ran
+    if (!this.files) writeFileSync(this.options.path, this.empty());
+    this.current = undefined;
+    this.closed = true;
+  }
+
+  private isFull(file: openFile, serialized: string): boolean {
+    const { maxRecords, maxBytes } = this.options;
+    if (maxRecords && file.records >= maxRecords) return true;
+    if (!maxBytes || !file.records) return false;
+    const size =
+      file.bytes +
+      Buffer.byteLength(this.separator + serialized + this.closing);
+    return size > maxBytes;
+  }
+
+  private open(batch: datasetRecord[]) {
+    const opening = this.opening(batch);
+    this.current = {
+      path: rotatedPath(this.options.path, this.files++),
+      bytes: Buffer.byteLength(opening),
+      written: 0,
+      records: 0,
+    };
+    this.pending = opening;
+  }
+
+  private writePending() {
+    const file = this.current;
+    if (!file || !this.pending) return;
+    if (file.written === 0)
+      writeFileSync(file.path, this.pending + this.closing);
+    else {
+      //drop the closing text written by the previous flush
+      truncateSync(file.path, file.written);
+      appendFileSync(file.path, this.pending + this.closing);
+    }
+    file.written = file.bytes;
+    this.pending = "";
+  }
+}
+
+/**
+ * Writes a JSON array, one record per line
+ */
+export class JsonSink extends FileSink {
+  protected separator = ",\n";
+  protected closing = "\n]\n";
+
+  protected opening(): string {
+    return "[\n";
+  }
+
+  protected empty(): string {
+    return "[]\n";
+  }
+
+  protected serialize(record: datasetRecord): string {
+    return JSON.stringify(record);
+  }
+}
+
+/**
+ * Writes one JSON object per line
+ */
+export class JsonLinesSink extends FileSink {
+  protected opening(): string {
+    return "";
+  }
+
+  protected serialize(record: datasetRecord): string {
+    return JSON.stringify(record) + "\n";
+  }
+}
+
+/**
+ * Quotes a CSV cell when it holds a separator, a quote, a line break or surrounding spaces
+ */
+export const escapeCsv = (value: unknown): string => {
+  let cell: string;
+  if (value === null || value === undefined) cell = "";
+  else if (value instanceof Date) cell = value.toISOString();
+  else if (typeof value === "object") cell = JSON.stringify(value);
+  else cell = String(value);
+  return /[",\r\n]|^\s|\s$/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+/**
+ * Writes a CSV file with a header row, rotated files repeat the header
+ */
+export class CsvSink extends FileSink {
+  private fields?: string[];
+
+  protected opening(batch: datasetRecord[]): string {
+    this.fields ??=
+      this.options.fields ??
+      Array.from(new Set(batch.flatMap((record) => Object.keys(record))));
+    return this.fields.map(escapeCsv).join(",") + "\n";
+  }
+
+  protected serialize(record: datasetRecord): string {
+    const fields = this.fields ?? Object.keys(record);
+    return fields.map((field) => escapeCsv(record[field])).join(",") + "\n";
+  }
+}
+
+/**
+ * Builds the sink writing the given format
+ */
+export const createSink = (options: datasetSinkOptions): IDatasetSink => {
+  switch (options.format) {
+    case "json":
+      return new JsonSink(options);
+    case "jsonl":
+      return new JsonLinesSink(options);
+    case "csv":
+      return new CsvSink(options);
+  }
+};
+
+const openDatasets = new Set<Dataset>();
+let exitHookInstalled = false;
+
+const closeDatasets = (): void => {
+  openDatasets.forEach((dataset) => dataset.close());
+};
+
+/**
+ * Closes the open datasets on SIGINT and SIGTERM, then lets the signal end the process as it would
+ * have without the handler. Other handlers of the signal keep deciding when the process exits
+ */
+const onSignal = (signal: NodeJS.Signals): void => {
+  closeDatasets();
+  process.removeListener("SIGINT", onSignal);
+  process.removeListener("SIGTERM", onSignal);
+  if (process.listenerCount(signal) === 0) process.kill(process.pid, signal);
+};
+
+/**
+ * Writes the buffered records of every open dataset. Datasets are shared by the whole process,
+ * so the primary browser flushes them when it is closed, not its workers
+ */
+export const flushDatasets = (): void => {
+  openDatasets.forEach((dataset) => dataset.flush());
+};
+
+/**
+ * Pushes scraped records to one or more sinks. Open datasets are flushed when a browser is closed
+ * and closed when the process exits or is interrupted
+ */
+export class Dataset {
+  private sinks: IDatasetSink[];
+
+  constructor(sinks: (IDatasetSink | datasetSinkOptions)[]) {
+    this.sinks = sinks.map((sink) =>
+      "write" in sink ? sink : createSink(sink)
+    );
+    openDatasets.add(this);
+    if (!exitHookInstalled) {
+      exitHookInstalled = true;
+      process.once("exit", closeDatasets);
+      process.once("SIGINT", onSignal);
+      process.once("SIGTERM", onSignal);
+    }
+  }
+
+  public push(...records: datasetRecord[]): void {
+    for (const record of records)
+      this.sinks.forEach((sink) => sink.write(record));
+  }
+
+  public flush(): void {
+    this.sinks.forEach((sink) => sink.flush());
+  }
+
+  public close(): void {
+    this.sinks.forEach((sink) => sink.close());
+    openDatasets.delete(this);
+  }
+}
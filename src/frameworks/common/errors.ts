@@ -0,0 +1,79 @@
+export interface actionErrorDetails {
+  /**
+   * Message of the action that failed, e.g. "Clicking on element"
+   */
+  action?: string;
+  /**
+   * Selector of the element the action ran on
+   */
+  selector?: string;
+  /**
+   * Url of the page when the action failed
+   */
+  url?: string;
+  /**
+   * Error thrown by the underlying engine
+   */
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error thrown by a failed action, whatever the backend
+ */
+export class ActionError extends Error {
+  public action?: string;
+  public selector?: string;
+  public url?: string;
+  public cause?: unknown;
+
+  constructor(message: string, details: actionErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.action = details.action;
+    this.selector = details.selector;
+    this.url = details.url;
+    this.cause = details.cause;
+  }
+}
+
+export class ElementNotFoundError extends ActionError {}
+
+export class ActionTimeoutError extends ActionError {}
+
+/**
+ * A task of a page pool that outlived its taskTimeout
+ */
+export class TaskTimeoutError extends ActionTimeoutError {}
+
+export class NavigationError extends ActionError {}
+
+export class TabNotFoundError extends ActionError {}
+
+export class DialogNotPresentError extends ActionError {}
+
+export class BackendUnsupportedError extends ActionError {}
+
+export class RobotsDisallowedError extends ActionError {}
+
+/**
+ * robots.txt could not be fetched, its origin is disallowed until a later attempt reads it
+ */
+export class RobotsUnreachableError extends ActionError {}
+
+/**
+ * A proxy failed or refused the connection, or every proxy of the rotation is unhealthy
+ */
+export class ProxyError extends ActionError {}
+
+export type ActionErrorClass = new (
+  message: string,
+  details?: actionErrorDetails
+) => ActionError;
+
+/**
+ * Maps an error thrown by a backend's engine onto the matching error class,
+ * undefined when the error has no specific meaning
+ */
+export type errorClassifier = (
+  error: unknown
+) => ActionErrorClass | undefined | Promise<ActionErrorClass | undefined>;
@@ -0,0 +1,121 @@
+import { actionOptions } from "../../types/interfaces/baseActionoptions";
+import { IBaseBrowser } from "../../types/interfaces/baseBrowser";
+import { IBaseElement } from "../../types/interfaces/baseElement";
+import {
+  extractedRecord,
+  extractionError,
+  extractionResult,
+  extractionSchema,
+  nestedField,
+  schemaField,
+  valueField,
+} from "../../types/interfaces/baseSchema";
+import { ElementNotFoundError } from "./errors";
+import { readOptions } from "./utils";
+
+type extractionScope = Pick<IBaseBrowser, "selector"> | IBaseElement;
+
+const isElement = (scope: extractionScope): scope is IBaseElement =>
+  "nth" in scope;
+
+const normalizeField = (field: schemaField): valueField | nestedField =>
+  typeof field === "string" ? { selector: field } : field;
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Raised when a field has nothing to read, optional fields ignore it
+ */
+class MissingFieldError extends Error {}
+
+const readValue = async (
+  element: IBaseElement,
+  field: valueField,
+  options: actionOptions
+): Promise<unknown> => {
+  let raw: string | null;
+  if (field.attribute)
+    raw = await element.getAttribute(field.attribute, options);
+  else if (field.html) raw = await element.getHTML(options);
+  else raw = await element.getText(options);
+  if (raw === null)
+    throw new MissingFieldError(`Attribute ${field.attribute} is missing`);
+  return field.transform ? field.transform(raw) : raw;
+};
+
+/**
+ * Extracts a schema from the page or from an element using only IBaseElement actions, so it runs on any backend.
+ * Fields that fail are reported in errors instead of failing the whole extraction
+ *
+ * @param scope - The browser or element the selectors of the schema are relative to
+ * @param schema - The fields to extract
+ * @param timeout - Optional. Timeout of every read made while extracting
+ * @param path - Optional. Path of the scope in the top level record, used in the reported errors
+ *
+ * @returns The extracted record and the fields that failed to resolve
+ */
+export const extractSchema = async <S extends extractionSchema>(
+  scope: extractionScope,
+  schema: S,
+  timeout?: number,
+  path = ""
+): Promise<extractionResult<S>> => {
+  //failures are collected per field
+  const options = readOptions(timeout);
+  const data: Record<string, unknown> = {};
+  const errors: extractionError[] = [];
+
+  for (const [name, entry] of Object.entries(schema)) {
+    const field = normalizeField(entry);
+    const fieldPath = path ? `${path}.${name}` : name;
+    const report = (error: unknown, at = fieldPath) => {
+      const missing =
+        error instanceof MissingFieldError ||
+        error instanceof ElementNotFoundError;
+      if (missing && field.optional) return;
+      errors.push({
+        field: at,
+        selector: field.selector,
+        message: errorMessage(error),
+      });
+    };
+    const read = async (
+      element: IBaseElement,
+      at: string
+    ): Promise<unknown> => {
+      if (!("schema" in field)) return await readValue(element, field, options);
+      const nested = await extractSchema(element, field.schema, timeout, at);
+      errors.push(...nested.errors);
+      return nested.data;
+    };
+
+    data[name] = field.list ? [] : null;
+    try {
+      let matches: IBaseElement;
+      if (field.selector)
+        matches = scope.selector(field.selector, field.selectorType);
+      else if (isElement(scope)) matches = scope;
+      else throw new Error(`Field ${fieldPath} needs a selector`);
+
+      const count = await matches.count(options);
+      if (count === 0) throw new MissingFieldError("No element matched");
+      if (!field.list) {
+        data[name] = await read(matches.nth(0), fieldPath);
+        continue;
+      }
+      const values: unknown[] = [];
+      for (let i = 0; i < count; i++) {
+        try {
+          values.push(await read(matches.nth(i), `${fieldPath}[${i}]`));
+        } catch (error) {
+          report(error, `${fieldPath}[${i}]`);
+        }
+      }
+      data[name] = values;
+    } catch (error) {
+      report(error);
+    }
+  }
+  return { data: data as extractedRecord<S>, errors };
+};
@@ -0,0 +1,185 @@
+import { readFileSync, writeFileSync } from "fs";
+import { baseConfig } from "../../types/interfaces/baseConfig";
+import { har, harEntry, harHeader } from "../../types/interfaces/baseHar";
+
+/**
+ * A request and its response as seen by a backend, the body is missing when it can't be read, e.g. for redirects
+ */
+export interface recordedExchange {
+  started: number;
+  finished: number;
+  request: {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    postData?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body?: Buffer;
+  };
+}
+
+/**
+ * The HAR files of a browser, shared with its workers
+ */
+export interface harState {
+  recorder?: HarRecorder;
+  replay?: har;
+}
+
+const toHarHeaders = (headers: Record<string, string>): harHeader[] =>
+  Object.entries(headers).map(([name, value]) => ({ name, value }));
+
+const headerValue = (headers: Record<string, string>, name: string) =>
+  Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+
+const isText = (mimeType: string): boolean =>
+  /^text\/|json|javascript|xml|x-www-form-urlencoded/.test(mimeType);
+
+export const toHarEntry = ({
+  started,
+  finished,
+  request,
+  response,
+}: recordedExchange): harEntry => {
+  const mimeType = headerValue(response.headers, "content-type") ?? "";
+  const body = response.body;
+  const time = Math.max(finished - started, 0);
+  return {
+    startedDateTime: new Date(started).toISOString(),
+    time,
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion: "HTTP/1.1",
+      headers: toHarHeaders(request.headers),
+      queryString: Array.from(new URL(request.url).searchParams).map(
+        ([name, value]) => ({ name, value })
+      ),
+      cookies: [],
+      headersSize: -1,
+      bodySize: request.postData ? Buffer.byteLength(request.postData) : 0,
+      ...(request.postData !== undefined && {
+        postData: {
+          mimeType: headerValue(request.headers, "content-type") ?? "",
+          text: request.postData,
+        },
+      }),
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion: "HTTP/1.1",
+      headers: toHarHeaders(response.headers),
+      cookies: [],
+      content: {
+        size: body?.length ?? 0,
+        mimeType,
+        ...(body &&
+          (isText(mimeType)
+            ? { text: body.toString("utf8") }
+            : { text: body.toString("base64"), encoding: "base64" as const })),
+      },
+      redirectURL: headerValue(response.headers, "location") ?? "",
+      headersSize: -1,
+      bodySize: body?.length ?? -1,
+    },
+    cache: {},
+    timings: { send: 0, wait: time, receive: 0 },
+  };
+};
+
+/**
+ * Collects the exchanges of a session, the HAR file is written once when the browser closes
+ */
+export class HarRecorder {
+  private entries: Promise<harEntry | undefined>[] = [];
+
+  constructor(private path: string) {
+    this.path = path;
+  }
+
+  /**
+   * @param exchange - Resolves once the body of the response has been read, undefined drops the exchange
+   */
+  public record(exchange: Promise<recordedExchange | undefined>): void {
+    this.entries.push(
+      exchange.then((recorded) => recorded && toHarEntry(recorded))
+    );
+  }
+
+  public async save(): Promise<void> {
+    const entries = (await Promise.all(this.entries)).filter(
+      (entry): entry is harEntry => entry !== undefined
+    );
+    const log: har = {
+      log: {
+        version: "1.2",
+        creator: { name: "web-scraping-framework", version: "1.0.0" },
+        entries,
+      },
+    };
+    writeFileSync(this.path, JSON.stringify(log, null, 2));
+  }
+}
+
+export const readHar = (path: string): har => {
+  const parsed = JSON.parse(readFileSync(path, "utf8"));
+  if (!Array.isArray(parsed?.log?.entries))
+    throw new Error(`${path} is not a HAR file`);
+  return parsed as har;
+};
+
+/**
+ * Creates the recorder and loads the replayed HAR configured for a browser
+ */
+export const createHarState = (config: baseConfig): harState => ({
+  recorder: config.recordHar ? new HarRecorder(config.recordHar) : undefined,
+  replay: config.replayHar ? readHar(config.replayHar) : undefined,
+});
+
+/**
+ * Finds the first recorded exchange with the same method, URL and body as the request
+ */
+export const findHarEntry = (
+  log: har,
+  request: { url: string; method: string; postData?: string }
+): harEntry | undefined =>
+  log.log.entries.find(
+    (entry) =>
+      entry.request.url === request.url &&
+      entry.request.method.toUpperCase() === request.method.toUpperCase() &&
+      (request.postData === undefined ||
+        entry.request.postData?.text === request.postData)
+  );
+
+//the replayed body is already decoded and its length may differ
+const droppedHeaders = [
+  "content-encoding",
+  "content-length",
+  "transfer-encoding",
+];
+
+/**
+ * Builds the response served for a recorded exchange
+ */
+export const replayedResponse = (
+  entry: harEntry
+): { status: number; headers: Record<string, string>; body: Buffer } => {
+  const headers: Record<string, string> = {};
+  for (const { name, value } of entry.response.headers) {
+    const key = name.toLowerCase();
+    if (droppedHeaders.includes(key)) continue;
+    //repeated headers such as set-cookie are separated by line breaks
+    headers[key] = key in headers ? `${headers[key]}\n${value}` : value;
+  }
+  const { text, encoding } = entry.response.content;
+  return {
+    status: entry.response.status,
+    headers,
+    body: Buffer.from(text ?? "", encoding === "base64" ? "base64" : "utf8"),
+  };
+};
@@ -0,0 +1,100 @@
+import { IBaseBrowser } from "../../types/interfaces/baseBrowser";
+import { IBaseElement } from "../../types/interfaces/baseElement";
+import { harvestOptions } from "../../types/interfaces/baseHarvest";
+import { ElementNotFoundError } from "./errors";
+import { readOptions } from "./utils";
+
+const POLL_INTERVAL = 100;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+//runs in the page, it returns false instead of throwing since selenium can't report a rejection
+const scrollToEnd = (container: string | null): boolean => {
+  const target = container
+    ? document.querySelector(container)
+    : document.scrollingElement;
+  if (!target) return false;
+  target.scrollTop = target.scrollHeight;
+  return true;
+};
+
+/**
+ * Scrolls the page or a container to its end until no new item appears within idleTimeout,
+ * or maxItems or maxScrolls is reached
+ *
+ * @param browser - The browser showing the feed
+ * @param options - The items to harvest, the container and the stop conditions
+ *
+ * @returns An async iterator yielding every new item once, bound to its node, starting with the items already shown
+ */
+export const scrollUntilExhausted = async function* (
+  browser: Pick<IBaseBrowser, "selector" | "$eval">,
+  options: harvestOptions
+): AsyncGenerator<IBaseElement> {
+  const {
+    idleTimeout = 2000,
+    maxItems = Infinity,
+    maxScrolls = Infinity,
+    key,
+    timeout,
+  } = options;
+  const reads = readOptions(timeout);
+  const items = browser.selector(options.itemSelector, options.selectorType);
+  const seenKeys = new Set<string>();
+  //index and key of the last item processed
+  let last = -1;
+  let lastKey: string | undefined;
+  let yielded = 0;
+
+  const newItems = async (): Promise<IBaseElement[]> => {
+    const count = await items.count(reads);
+    let from = last + 1;
+    if (key && lastKey !== undefined) {
+      //the feed may have dropped or reordered items, the last item processed is looked for from its old index backwards
+      let i = Math.min(last, count - 1);
+      while (i >= 0 && (await key(items.nth(i))) !== lastKey) i--;
+      from = i + 1;
+    }
+    const found: IBaseElement[] = [];
+    //every new item is resolved once, the yielded elements keep pointing at it when the feed changes
+    for (let i = from; i < count; i++) {
+      const item = await items.nth(i).handle(reads);
+      if (key) {
+        const id = await key(item);
+        lastKey = id;
+        if (seenKeys.has(id)) continue;
+        seenKeys.add(id);
+      }
+      found.push(item);
+    }
+    last = Math.max(from - 1, count - 1);
+    return found;
+  };
+
+  for (let scrolls = 0; ; scrolls++) {
+    //the items already shown are taken before the first scroll
+    const deadline = scrolls ? Date.now() + idleTimeout : 0;
+    let found: IBaseElement[] = [];
+    do {
+      if (scrolls) await sleep(POLL_INTERVAL);
+      found = await newItems();
+    } while (!found.length && Date.now() < deadline);
+    if (scrolls && !found.length) return;
+
+    for (const item of found) {
+      yield item;
+      if (++yielded >= maxItems) return;
+    }
+    if (scrolls >= maxScrolls) return;
+    const scrolled = await browser.$eval(
+      scrollToEnd,
+      options.container ?? null,
+      reads
+    );
+    if (!scrolled)
+      throw new ElementNotFoundError(
+        `No scrollable element matches ${options.container}`,
+        { selector: options.container }
+      );
+  }
+};
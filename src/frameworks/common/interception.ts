@@ -0,0 +1,81 @@
+import {
+  cannedResponse,
+  interceptDecision,
+  interceptRule,
+  interceptedRequest,
+  requestMatcher,
+} from "../../types/interfaces/baseInterception";
+import { matchesUrl } from "./utils";
+
+export const matchesRequest = (
+  match: requestMatcher,
+  request: Pick<interceptedRequest, "url" | "method" | "resourceType">
+): boolean => {
+  if (match.url !== undefined) {
+    const patterns = Array.isArray(match.url) ? match.url : [match.url];
+    if (!matchesUrl(request.url, patterns)) return false;
+  }
+  if (
+    match.method &&
+    match.method.toUpperCase() !== request.method.toUpperCase()
+  )
+    return false;
+  if (
+    match.resourceTypes &&
+    !match.resourceTypes.some((type) => type === request.resourceType)
+  )
+    return false;
+  return true;
+};
+
+/**
+ * Checks a request against the rules in the order they were added. Header rewrites add up
+ * until a rule blocks or fulfills the request, so every backend resolves requests the same way
+ *
+ * @param rules - The interception rules of the browser
+ * @param request - The request about to be sent
+ *
+ * @returns Whether to block, fulfill or continue the request, with its rewritten headers
+ */
+export const resolveInterception = (
+  rules: interceptRule[],
+  request: interceptedRequest
+): interceptDecision => {
+  let headers: Record<string, string> | undefined;
+  for (const rule of rules) {
+    if (!matchesRequest(rule.match, request)) continue;
+    if (rule.action === "block") return { action: "block" };
+    if (rule.action === "fulfill")
+      return { action: "fulfill", response: rule.response };
+    headers ??= Object.fromEntries(
+      Object.entries(request.headers).map(([name, value]) => [
+        name.toLowerCase(),
+        value,
+      ])
+    );
+    for (const [name, value] of Object.entries(rule.headers)) {
+      if (value === null) delete headers[name.toLowerCase()];
+      else headers[name.toLowerCase()] = value;
+    }
+  }
+  return { action: "continue", headers };
+};
+
+/**
+ * Resolves the body and content type of a canned response
+ */
+export const cannedBody = (
+  response: cannedResponse
+): { status: number; contentType?: string; body: string } => {
+  if (response.json !== undefined)
+    return {
+      status: response.status ?? 200,
+      contentType: response.contentType ?? "application/json",
+      body: JSON.stringify(response.json),
+    };
+  return {
+    status: response.status ?? 200,
+    contentType: response.contentType,
+    body: response.body ?? "",
+  };
+};
@@ -0,0 +1,75 @@
+import { appendFileSync } from "fs";
+import { ILogger, LogEntry, LogLevel } from "../../types/interfaces/baseLogger";
+import { baseConfig } from "../../types/interfaces/baseConfig";
+
+const levelOrder: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+const formatText = (entry: LogEntry): string =>
+  [
+    entry.timestamp,
+    entry.level.toUpperCase(),
+    entry.backend &&
+      `[${entry.backend}${entry.tab !== undefined ? `#${entry.tab}` : ""}]`,
+    entry.message,
+    entry.selector && `selector=${entry.selector}`,
+    entry.outcome,
+    entry.attempt !== undefined && `attempt=${entry.attempt}`,
+    entry.duration !== undefined && `${entry.duration}ms`,
+    entry.error && `- ${entry.error}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+/**
+ * Writes entries at or above the given level to the console, as text or one JSON object per line
+ */
+export class ConsoleLogger implements ILogger {
+  constructor(
+    private level: LogLevel = "info",
+    private format: "text" | "json" = "text"
+  ) {
+    this.level = level;
+    this.format = format;
+  }
+
+  public log(entry: LogEntry): void {
+    if (levelOrder[entry.level] < levelOrder[this.level]) return;
+    const line =
+      this.format === "json" ? JSON.stringify(entry) : formatText(entry);
+    if (entry.level === "error") console.error(line);
+    else console.log(line);
+  }
+}
+
+/**
+ * Appends entries at or above the given level to a file as newline delimited JSON,
+ * writes are synchronous so nothing is lost when the process exits
+ */
+export class FileLogger implements ILogger {
+  constructor(
+    private path: string,
+    private level: LogLevel = "info"
+  ) {
+    this.path = path;
+    this.level = level;
+  }
+
+  public log(entry: LogEntry): void {
+    if (levelOrder[entry.level] < levelOrder[this.level]) return;
+    appendFileSync(this.path, JSON.stringify(entry) + "\n");
+  }
+}
+
+/**
+ * Builds the logger described by the config, a custom logger takes precedence over logFile
+ */
+export const createLogger = (config: Readonly<baseConfig>): ILogger => {
+  if (config.logger) return config.logger;
+  if (config.logFile) return new FileLogger(config.logFile, config.logLevel);
+  return new ConsoleLogger(config.logLevel, config.logFormat);
+};
@@ -0,0 +1,31 @@
+import { baseConfig } from "../../types/interfaces/baseConfig";
+import { acquireNavigationSlot } from "./rateLimiter";
+import { checkRobotsTxt, robotsRequest } from "./robots";
+
+/**
+ * Runs a page load behind the crawling rules of the config, every backend navigates through it
+ *
+ * @param url - The absolute URL about to be loaded
+ * @param config - The config of the browser instance
+ * @param timeout - Timeout of the page load, the delays imposed by the rules are not counted in it
+ * @param load - Loads the page with the backend's engine
+ * @param request - Optional. How the robots.txt request reaches the site, e.g. through the proxy of the page
+ *
+ * @returns false when the navigation was skipped
+ */
+export const navigate = async (
+  url: string,
+  config: Readonly<baseConfig>,
+  timeout: number | undefined,
+  load: () => Promise<void>,
+  request?: robotsRequest
+): Promise<boolean> => {
+  if (!(await checkRobotsTxt(url, config, timeout, request))) return false;
+  const release = await acquireNavigationSlot(url, config);
+  try {
+    await load();
+  } finally {
+    release();
+  }
+  return true;
+};
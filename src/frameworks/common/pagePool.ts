@@ -0,0 +1,169 @@
+import { IBaseBrowser } from "../../types/interfaces/baseBrowser";
+import {
+  pagePoolOptions,
+  pageTask,
+  taskResult,
+} from "../../types/interfaces/basePagePool";
+import { TaskTimeoutError } from "./errors";
+
+interface poolWorker {
+  page: IBaseBrowser;
+  tasks: number;
+}
+
+interface queuedTask {
+  id: number;
+  task: pageTask<unknown>;
+  resolve: (result: taskResult<unknown>) => void;
+}
+
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
+const withTaskTimeout = <T>(
+  run: Promise<T>,
+  id: number,
+  timeout?: number
+): Promise<T> => {
+  if (!timeout) return run;
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      //the abandoned task fails once its page is closed, nobody waits for it anymore
+      run.catch(() => undefined);
+      reject(new TaskTimeoutError(`Task ${id} timed out after ${timeout}ms`));
+    }, timeout);
+    run.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Runs tasks in parallel on worker pages opened from a single browser.
+ * Failed tasks never reject, their error is part of their result
+ */
+export class PagePool {
+  private queue: queuedTask[] = [];
+  private idle: poolWorker[] = [];
+  private running = 0;
+  private submitted = 0;
+  private closed = false;
+  private drained: (() => void)[] = [];
+
+  constructor(
+    private browser: IBaseBrowser,
+    private options: pagePoolOptions = {}
+  ) {
+    this.browser = browser;
+    this.options = options;
+  }
+
+  /**
+   * Queues a task and waits for its result
+   *
+   * @param task - The task, it receives a worker page no other task uses while it runs
+   *
+   * @returns A Promise resolving to the value or the error of the task
+   */
+  public run<T>(task: pageTask<T>): Promise<taskResult<T>> {
+    if (this.closed)
+      return Promise.reject(new Error("The page pool is closed"));
+    return new Promise<taskResult<T>>((resolve) => {
+      this.queue.push({
+        id: this.submitted++,
+        task,
+        resolve: resolve as queuedTask["resolve"],
+      });
+      this.pump();
+    });
+  }
+
+  /**
+   * Queues every task and waits for all of them
+   *
+   * @returns The results in the order of the tasks
+   */
+  public async runAll<T>(tasks: pageTask<T>[]): Promise<taskResult<T>[]> {
+    return await Promise.all(tasks.map((task) => this.run(task)));
+  }
+
+  /**
+   * Waits for the queued tasks and closes the worker pages, the browser itself stays open
+   */
+  public async close(): Promise<void> {
+    this.closed = true;
+    if (this.running || this.queue.length)
+      await new Promise<void>((resolve) => this.drained.push(resolve));
+    const workers = this.idle.splice(0);
+    await Promise.all(workers.map((worker) => this.discard(worker)));
+  }
+
+  private pump() {
+    const concurrency = this.options.concurrency ?? 4;
+    while (this.queue.length && this.running < concurrency) {
+      const queued = this.queue.shift() as queuedTask;
+      this.running++;
+      void this.execute(queued).finally(() => {
+        this.running--;
+        this.pump();
+        if (!this.running && !this.queue.length)
+          this.drained.splice(0).forEach((resolve) => resolve());
+      });
+    }
+  }
+
+  private async acquire(): Promise<poolWorker> {
+    //a worker that can't be opened fails the task, even when the browser doesn't throw on failures
+    return (
+      this.idle.pop() ?? {
+        page: await this.browser.openWorker({ throwOnFail: true }),
+        tasks: 0,
+      }
+    );
+  }
+
+  private async discard(worker: poolWorker) {
+    await worker.page.closeBrowser({ log: false, throwOnFail: false });
+  }
+
+  private async execute({ id, task, resolve }: queuedTask) {
+    const started = Date.now();
+    let worker: poolWorker | undefined;
+    let result: taskResult<unknown>;
+    let reusable = true;
+    try {
+      worker = await this.acquire();
+      worker.tasks++;
+      const value = await withTaskTimeout(
+        task(worker.page),
+        id,
+        this.options.taskTimeout
+      );
+      result = { id, ok: true, value, duration: Date.now() - started };
+    } catch (error) {
+      reusable = !(error instanceof TaskTimeoutError);
+      result = {
+        id,
+        ok: false,
+        error: toError(error),
+        duration: Date.now() - started,
+      };
+    }
+    //the page of a timed out task is closed before the next task takes the slot, the task may still be using it
+    if (worker) {
+      const { recycleAfter } = this.options;
+      const exhausted =
+        recycleAfter !== undefined && worker.tasks >= recycleAfter;
+      if (reusable && !exhausted) this.idle.push(worker);
+      else await this.discard(worker);
+    }
+    resolve(result);
+  }
+}
@@ -0,0 +1,143 @@
+import { IBaseBrowser } from "../../types/interfaces/baseBrowser";
+import { IBaseElement } from "../../types/interfaces/baseElement";
+import {
+  paginatedPage,
+  paginationOptions,
+} from "../../types/interfaces/basePagination";
+import { pickActionOptions, readOptions } from "./utils";
+
+const POLL_INTERVAL = 100;
+const DEFAULT_CHANGE_TIMEOUT = 30000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const snapshot = async (
+  browser: IBaseBrowser,
+  selector: string,
+  timeout?: number
+): Promise<string | undefined> => {
+  try {
+    return await browser.selector(selector).getHTML(readOptions(timeout));
+  } catch {
+    //the page is still navigating
+    return undefined;
+  }
+};
+
+/**
+ * Polls the HTML of the change selector until it differs from the one read before leaving the page
+ *
+ * @returns Whether the content changed before the timeout
+ */
+const waitForChange = async (
+  browser: IBaseBrowser,
+  selector: string,
+  before: string | undefined,
+  timeout?: number
+): Promise<boolean> => {
+  const deadline =
+    timeout === 0 ? Infinity : Date.now() + (timeout ?? DEFAULT_CHANGE_TIMEOUT);
+  while (Date.now() < deadline) {
+    const current = await snapshot(browser, selector, timeout);
+    if (current !== undefined && current !== before) return true;
+    await sleep(POLL_INTERVAL);
+  }
+  return false;
+};
+
+/**
+ * A "next" element is usable when it exists, is visible and is neither disabled nor marked as disabled
+ */
+const isUsable = async (
+  next: IBaseElement,
+  timeout?: number
+): Promise<boolean> => {
+  const options = readOptions(timeout);
+  if ((await next.count(options)) === 0) return false;
+  const first = next.nth(0);
+  if (!(await first.isVisible(options)) || !(await first.isEnabled(options)))
+    return false;
+  const ariaDisabled = await first.getAttribute("aria-disabled", options);
+  const className = (await first.getAttribute("class", options)) ?? "";
+  return ariaDisabled !== "true" && !/\bdisabled\b/.test(className);
+};
+
+const findRelNext = async (
+  browser: IBaseBrowser,
+  timeout?: number
+): Promise<string | undefined> => {
+  const options = readOptions(timeout);
+  const links = browser.selector('a[rel~="next"], link[rel~="next"]');
+  if ((await links.count(options)) === 0) return undefined;
+  const href = await links.nth(0).getAttribute("href", options);
+  if (!href) return undefined;
+  return new URL(href, await browser.getUrl(options)).toString();
+};
+
+/**
+ * Walks a paginated listing and yields what the extractor returns for every page.
+ * The pagination ends when there is no next page, the navigation to it fails or is disallowed by robots.txt,
+ * the content does not change after moving to it, the extractor returns an empty array, maxPages is reached
+ * or stopWhen returns true
+ *
+ * @param browser - The browser, already on the first page unless the url mode is used
+ * @param options - How to reach the next page, the extractor and the stop conditions
+ *
+ * @returns An async iterator of the extracted pages
+ */
+export const paginate = async function* <T>(
+  browser: IBaseBrowser,
+  options: paginationOptions<T>
+): AsyncGenerator<paginatedPage<T>> {
+  const { maxPages = Infinity, changeSelector = "body", timeout } = options;
+  const actionOptions = pickActionOptions(options);
+  const visited = new Set<string>();
+  let page = options.mode === "url" ? options.firstPage ?? 1 : 1;
+
+  for (let count = 0; count < maxPages; count++, page++) {
+    if (count > 0 || options.mode === "url") {
+      const before = await snapshot(browser, changeSelector, timeout);
+      switch (options.mode) {
+        case "next": {
+          const next = browser.selector(
+            options.nextSelector,
+            options.selectorType
+          );
+          if (!(await isUsable(next, timeout))) return;
+          await next.nth(0).click(actionOptions);
+          break;
+        }
+        case "url":
+          //the first page is loaded from the template too, the document open before is never extracted
+          if (
+            !(await browser.navigateTo(
+              options.urlTemplate.replace(/\{page\}/g, String(page)),
+              actionOptions
+            ))
+          )
+            return;
+          break;
+        case "relNext": {
+          const url = await findRelNext(browser, timeout);
+          if (!url || visited.has(url)) return;
+          if (!(await browser.navigateTo(url, actionOptions))) return;
+          break;
+        }
+      }
+      //the first page of the url mode has no previous page to differ from
+      if (
+        count > 0 &&
+        !(await waitForChange(browser, changeSelector, before, timeout))
+      )
+        return;
+      await browser.waitFor.pageLoad(readOptions(timeout));
+    }
+
+    const url = await browser.getUrl(readOptions(timeout));
+    visited.add(url);
+    const data = await options.extract(browser, page);
+    if (Array.isArray(data) && data.length === 0) return;
+    yield { page, url, data };
+    if (await options.stopWhen?.(data, page)) return;
+  }
+};
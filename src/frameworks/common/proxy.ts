@@ -0,0 +1,129 @@
+import { Dispatcher, ProxyAgent, Socks5ProxyAgent } from "undici";
+import { baseConfig } from "../../types/interfaces/baseConfig";
+import { proxySettings } from "../../types/interfaces/baseProxy";
+import { ProxyError } from "./errors";
+
+//shared by every browser of the process so a failed proxy is left out everywhere
+const failures = new Map<string, number>();
+const cursors = new Map<string, number>();
+
+const PROXY_FAILURE =
+  /ERR_PROXY|ERR_TUNNEL_CONNECTION_FAILED|ERR_SOCKS|ERR_NO_SUPPORTED_PROXIES|NS_ERROR_PROXY|NS_ERROR_UNKNOWN_PROXY_HOST/;
+
+/**
+ * Whether an engine error comes from the proxy rather than the target site
+ */
+export const isProxyFailure = (error: unknown): boolean =>
+  error instanceof Error && PROXY_FAILURE.test(error.message);
+
+export const markProxyUnhealthy = (proxy: proxySettings): void => {
+  failures.set(proxy.server, Date.now());
+};
+
+const isHealthy = (proxy: proxySettings, config: baseConfig): boolean => {
+  const failedAt = failures.get(proxy.server);
+  return (
+    failedAt === undefined ||
+    Date.now() - failedAt >= (config.proxyCooldown ?? 300000)
+  );
+};
+
+export const usesProxy = (config: baseConfig): boolean =>
+  Boolean(config.proxy || config.proxies?.length);
+
+/**
+ * Whether opening a tab opens a context with the next proxy of the rotation,
+ * workers always get a context of their own
+ */
+export const opensProxyContext = (config: baseConfig): boolean =>
+  Boolean(config.proxies?.length) && config.proxyRotation === "tab";
+
+/**
+ * Picks the proxy of a new context, the next healthy one of config.proxies in turn or config.proxy
+ *
+ * @param config - The config of the browser
+ *
+ * @returns The proxy, undefined when none is configured
+ */
+export const nextProxy = (config: baseConfig): proxySettings | undefined => {
+  const proxies = config.proxies;
+  if (!proxies?.length) return config.proxy;
+  const key = proxies.map((proxy) => proxy.server).join(",");
+  const start = cursors.get(key) ?? 0;
+  for (let offset = 0; offset < proxies.length; offset++) {
+    const index = (start + offset) % proxies.length;
+    if (!isHealthy(proxies[index], config)) continue;
+    cursors.set(key, index + 1);
+    return proxies[index];
+  }
+  throw new ProxyError("Every proxy of the rotation is unhealthy");
+};
+
+//bypass entries starting with a dot match the domain and its subdomains, like the browsers do
+const bypasses = (proxy: proxySettings, hostname: string): boolean =>
+  (proxy.bypass ?? []).some((host) =>
+    host.startsWith(".")
+      ? hostname === host.slice(1) || hostname.endsWith(host)
+      : hostname === host
+  );
+
+/**
+ * Routes the requests the framework makes from Node, such as robots.txt, through the proxy of a browser
+ *
+ * @param proxy - The proxy of the browser's page
+ * @param url - The URL about to be requested
+ *
+ * @returns The dispatcher to pass to fetch, undefined when the host bypasses the proxy
+ */
+export const proxyDispatcher = (
+  proxy: proxySettings,
+  url: string
+): Dispatcher | undefined => {
+  if (bypasses(proxy, new URL(url).hostname)) return undefined;
+  //like the browsers, a server without a scheme is an HTTP proxy
+  const server = /^[a-z0-9]+:\/\//i.test(proxy.server)
+    ? proxy.server
+    : `http://${proxy.server}`;
+  const { username, password } = proxy;
+  if (server.startsWith("socks"))
+    return new Socks5ProxyAgent(server, { username, password });
+  return new ProxyAgent({
+    uri: server,
+    token:
+      username === undefined
+        ? undefined
+        : `Basic ${Buffer.from(`${username}:${password ?? ""}`).toString(
+            "base64"
+          )}`,
+  });
+};
+
+/**
+ * Runs a navigation and marks the proxy it went through unhealthy when the proxy fails it
+ * or rejects its credentials
+ *
+ * @param proxy - The proxy of the navigated page, if any
+ * @param load - The navigation, resolving to its response
+ */
+export const trackProxyHealth = async (
+  proxy: proxySettings | undefined,
+  load: () => Promise<{ status: () => number } | null>
+): Promise<void> => {
+  let status: number | undefined;
+  try {
+    status = (await load())?.status();
+  } catch (error) {
+    if (proxy && isProxyFailure(error)) {
+      markProxyUnhealthy(proxy);
+      throw new ProxyError(
+        `Proxy ${proxy.server} failed: ${(error as Error).message}`,
+        { cause: error }
+      );
+    }
+    throw error;
+  }
+  if (proxy && status === 407) {
+    markProxyUnhealthy(proxy);
+    throw new ProxyError(`Proxy ${proxy.server} rejected the credentials`);
+  }
+};
@@ -0,0 +1,120 @@
+import { baseConfig } from "../../types/interfaces/baseConfig";
+
+interface originState {
+  /**
+   * Start times of the recent navigations, future ones are reserved by navigations waiting for their turn
+   */
+  starts: number[];
+  active: number;
+  waiting: (() => void)[];
+}
+
+/**
+ * Source of the time the waits between navigations are measured with
+ */
+export interface navigationClock {
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+}
+
+//shared by every tab and browser instance of the process
+const origins = new Map<string, originState>();
+
+const systemClock: navigationClock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+let clock = systemClock;
+
+/**
+ * Replaces the clock of the rate limiter, e.g. to move time forward in tests without waiting
+ *
+ * @param replacement - Optional. The clock to use, the system clock when omitted
+ */
+export const setNavigationClock = (replacement?: navigationClock): void => {
+  clock = replacement ?? systemClock;
+};
+
+const stateOf = (origin: string): originState => {
+  let state = origins.get(origin);
+  if (!state) {
+    state = { starts: [], active: 0, waiting: [] };
+    origins.set(origin, state);
+  }
+  return state;
+};
+
+const isLimited = (config: Readonly<baseConfig>): boolean =>
+  Boolean(
+    config.rateLimit ||
+    config.navigationDelay ||
+    config.navigationJitter ||
+    config.maxConcurrentNavigations
+  );
+
+/**
+ * Time at which the next navigation to the origin may start, given the navigations already started or reserved
+ */
+const nextStart = (
+  state: originState,
+  config: Readonly<baseConfig>
+): number => {
+  let start = clock.now();
+  const last = state.starts[state.starts.length - 1];
+  if (last !== undefined) {
+    const delay =
+      (config.navigationDelay ?? 0) +
+      Math.random() * (config.navigationJitter ?? 0);
+    start = Math.max(start, last + delay);
+  }
+  const { rateLimit } = config;
+  const interval = config.rateLimitInterval ?? 1000;
+  if (rateLimit && state.starts.length >= rateLimit)
+    start = Math.max(
+      start,
+      state.starts[state.starts.length - rateLimit] + interval
+    );
+  return start;
+};
+
+/**
+ * Waits until the rate limits of the config allow a navigation to the origin of the URL
+ *
+ * @param url - The absolute URL about to be loaded
+ * @param config - The config of the browser instance, its limits apply to the navigations of the whole process
+ *
+ * @returns A function to call once the navigation is done, it frees the concurrency slot
+ */
+export const acquireNavigationSlot = async (
+  url: string,
+  config: Readonly<baseConfig>
+): Promise<() => void> => {
+  let origin: string;
+  try {
+    origin = new URL(url).origin;
+  } catch {
+    origin = "null";
+  }
+  if (!isLimited(config) || origin === "null") return () => undefined;
+
+  const state = stateOf(origin);
+  const maxConcurrent = config.maxConcurrentNavigations;
+  while (maxConcurrent && state.active >= maxConcurrent)
+    await new Promise<void>((resolve) => state.waiting.push(resolve));
+  state.active++;
+
+  //the start is reserved before waiting so concurrent navigations queue up
+  const start = nextStart(state, config);
+  //only the last start and the one rateLimit navigations back are ever looked at
+  state.starts = [...state.starts, start].slice(-(config.rateLimit || 1));
+  await clock.sleep(start - clock.now());
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    state.active--;
+    state.waiting.shift()?.();
+  };
+};
@@ -0,0 +1,153 @@
+import {
+  capturedResponse,
+  responseCapture,
+  responseMatcher,
+} from "../../types/interfaces/baseResponses";
+import { ActionTimeoutError } from "./errors";
+import { matchesUrl } from "./utils";
+
+/**
+ * A response as reported by a backend, its body is only read when a listener matches it
+ */
+export interface responseSource {
+  url: string;
+  method: string;
+  status: number;
+  headers: Record<string, string>;
+  text: () => Promise<string>;
+}
+
+type responseListener = (response: responseSource) => void;
+
+const lowerCaseHeaders = (
+  headers: Record<string, string>
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+
+export const matchesResponse = (
+  matcher: responseMatcher,
+  response: responseSource
+): boolean => {
+  if (matcher.url !== undefined) {
+    const patterns = Array.isArray(matcher.url) ? matcher.url : [matcher.url];
+    if (!matchesUrl(response.url, patterns)) return false;
+  }
+  if (
+    matcher.method &&
+    matcher.method.toUpperCase() !== response.method.toUpperCase()
+  )
+    return false;
+  if (matcher.status !== undefined && matcher.status !== response.status)
+    return false;
+  if (matcher.contentType !== undefined) {
+    const contentType =
+      lowerCaseHeaders(response.headers)["content-type"] ?? "";
+    return typeof matcher.contentType === "string"
+      ? contentType.includes(matcher.contentType)
+      : matcher.contentType.test(contentType);
+  }
+  return true;
+};
+
+/**
+ * Reads the body of a response, parsed when its content type is JSON
+ */
+export const toCapturedResponse = async (
+  response: responseSource
+): Promise<capturedResponse> => {
+  const headers = lowerCaseHeaders(response.headers);
+  let body: unknown;
+  try {
+    body = await response.text();
+    if (/\bjson\b/.test(headers["content-type"] ?? ""))
+      body = JSON.parse(body as string);
+  } catch {
+    //the body is not available or not valid JSON, the text is kept when there is one
+  }
+  return {
+    url: response.url,
+    method: response.method,
+    status: response.status,
+    headers,
+    body,
+  };
+};
+
+/**
+ * Dispatches the responses of a browser's pages to the captures and waits registered on it
+ */
+export class ResponseListeners {
+  private listeners = new Set<responseListener>();
+
+  public emit(response: responseSource): void {
+    this.listeners.forEach((listener) => listener(response));
+  }
+
+  public capture(matcher: responseMatcher): responseCapture {
+    const responses: capturedResponse[] = [];
+    //bodies are read in parallel but pushed in the order the responses arrived
+    let pending = Promise.resolve();
+    const listener: responseListener = (response) => {
+      if (!matchesResponse(matcher, response)) return;
+      const captured = toCapturedResponse(response);
+      pending = Promise.all([pending, captured]).then(([, read]) => {
+        responses.push(read);
+      });
+    };
+    this.listeners.add(listener);
+    return {
+      responses,
+      stop: async () => {
+        this.listeners.delete(listener);
+        await pending;
+      },
+    };
+  }
+
+  /**
+   * Resolves with the first matching response that arrives after the call
+   *
+   * @param matcher - The response to wait for
+   * @param trigger - Optional. The action causing the response, run once the wait is registered
+   * @param timeout - Optional. Time in milliseconds to wait for the response and the trigger, 0 disables it
+   */
+  public async next(
+    matcher: responseMatcher,
+    trigger?: () => Promise<unknown>,
+    timeout?: number
+  ): Promise<capturedResponse> {
+    let listener: responseListener | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const arrived = new Promise<capturedResponse>((resolve) => {
+      listener = (response) => {
+        if (!matchesResponse(matcher, response)) return;
+        this.listeners.delete(listener as responseListener);
+        void toCapturedResponse(response).then(resolve);
+      };
+      this.listeners.add(listener);
+    });
+    const expired = new Promise<never>((resolve, reject) => {
+      if (timeout)
+        timer = setTimeout(
+          () =>
+            reject(
+              new ActionTimeoutError(
+                `No matching response arrived within ${timeout}ms`
+              )
+            ),
+          timeout
+        );
+    });
+    //the timeout can expire while the trigger runs, before anything awaits it
+    expired.catch(() => undefined);
+    try {
+      await Promise.race([trigger?.(), expired]);
+      return await Promise.race([arrived, expired]);
+    } finally {
+      this.listeners.delete(listener as responseListener);
+      clearTimeout(timer);
+    }
+  }
+}
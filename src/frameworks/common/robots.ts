@@ -0,0 +1,315 @@
+import { fetch } from "undici";
+import { baseConfig } from "../../types/interfaces/baseConfig";
+import { proxySettings } from "../../types/interfaces/baseProxy";
+import { RobotsDisallowedError, RobotsUnreachableError } from "./errors";
+import { HarRecorder, findHarEntry, readHar, replayedResponse } from "./har";
+import { proxyDispatcher } from "./proxy";
+
+interface robotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface robotsGroup {
+  userAgents: string[];
+  rules: robotsRule[];
+  crawlDelay?: number;
+}
+
+/**
+ * How the robots.txt request of a navigation reaches the site, the same way as the page it is checked for
+ */
+export interface robotsRequest {
+  /**
+   * Proxy of the page being navigated
+   */
+  proxy?: proxySettings;
+  /**
+   * Recorder of the browser's HAR, the robots.txt exchange is written to it like the traffic of the pages
+   */
+  recorder?: HarRecorder;
+  /**
+   * HAR robots.txt is served from instead of the network
+   */
+  replayHar?: string;
+}
+
+export interface robotsTxt {
+  groups: robotsGroup[];
+  /**
+   * Set when robots.txt could not be read: true when it is missing, false to disallow everything
+   */
+  allowAll?: boolean;
+  /**
+   * Why robots.txt could not be fetched, the origin is disallowed until it can be
+   */
+  unreachable?: string;
+}
+
+//robots.txt may be cached for up to 24 hours
+const CACHE_TTL = 24 * 60 * 60 * 1000;
+//an unreachable robots.txt is asked for again after a minute, then twice as late after every failure
+const UNREACHABLE_BACKOFF = 60 * 1000;
+
+interface cachedRobotsTxt {
+  expires: number;
+  robots: Promise<robotsTxt>;
+  //consecutive times robots.txt was unreachable
+  failures: number;
+}
+
+const cache = new Map<string, cachedRobotsTxt>();
+const lastVisits = new Map<string, number>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Parses a robots.txt file into its groups, unknown lines are ignored
+ */
+export const parseRobotsTxt = (contents: string): robotsTxt => {
+  const groups: robotsGroup[] = [];
+  let group: robotsGroup | undefined;
+  for (const rawLine of contents.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    if (key === "user-agent") {
+      //consecutive user-agent lines share the rules that follow them
+      if (!group || group.rules.length || group.crawlDelay !== undefined) {
+        group = { userAgents: [], rules: [] };
+        groups.push(group);
+      }
+      group.userAgents.push(value.toLowerCase());
+    } else if (!group) {
+      continue;
+    } else if (key === "allow" || key === "disallow") {
+      //an empty disallow allows everything
+      if (value) group.rules.push({ allow: key === "allow", pattern: value });
+    } else if (key === "crawl-delay") {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay >= 0) group.crawlDelay = delay;
+    }
+  }
+  return { groups };
+};
+
+const groupsFor = (robots: robotsTxt, userAgent: string): robotsGroup[] => {
+  const token = userAgent.toLowerCase();
+  const matching = robots.groups.filter((group) =>
+    group.userAgents.includes(token)
+  );
+  return matching.length
+    ? matching
+    : robots.groups.filter((group) => group.userAgents.includes("*"));
+};
+
+const patternToRegExp = (pattern: string): RegExp => {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+};
+
+/**
+ * Checks a URL against robots.txt, the longest matching rule wins and allow wins ties
+ *
+ * @param robots - The parsed robots.txt of the URL's origin
+ * @param url - The URL to check
+ * @param userAgent - The user-agent token the groups are matched with
+ *
+ * @returns Whether the URL may be visited
+ */
+export const isAllowedByRobots = (
+  robots: robotsTxt,
+  url: string,
+  userAgent: string
+): boolean => {
+  if (robots.unreachable !== undefined) return false;
+  if (robots.allowAll !== undefined) return robots.allowAll;
+  const { pathname, search } = new URL(url);
+  if (pathname === "/robots.txt") return true;
+  const path = pathname + search;
+  let match: robotsRule | undefined;
+  for (const group of groupsFor(robots, userAgent)) {
+    for (const rule of group.rules) {
+      if (!patternToRegExp(rule.pattern).test(path)) continue;
+      if (
+        !match ||
+        rule.pattern.length > match.pattern.length ||
+        (rule.pattern.length === match.pattern.length && rule.allow)
+      )
+        match = rule;
+    }
+  }
+  return match?.allow ?? true;
+};
+
+const crawlDelay = (robots: robotsTxt, userAgent: string): number =>
+  Math.max(
+    0,
+    ...groupsFor(robots, userAgent).map((group) => group.crawlDelay ?? 0)
+  );
+
+/**
+ * As in RFC 9309, a missing or forbidden robots.txt (4xx) allows everything and a failing server (5xx) disallows everything
+ */
+const toRobotsTxt = (status: number, body: string): robotsTxt => {
+  if (status >= 200 && status < 300) return parseRobotsTxt(body);
+  if (status >= 500)
+    return { groups: [], unreachable: `the server answered ${status}` };
+  return { groups: [], allowAll: true };
+};
+
+/**
+ * A replay never reaches the network, a robots.txt missing from the HAR counts as missing from the site
+ */
+const replayRobotsTxt = (path: string, url: string): robotsTxt => {
+  const entry = findHarEntry(readHar(path), { url, method: "GET" });
+  if (!entry) return { groups: [], allowAll: true };
+  const { status, body } = replayedResponse(entry);
+  return toRobotsTxt(status, body.toString("utf8"));
+};
+
+const fetchRobotsTxt = async (
+  origin: string,
+  userAgent: string,
+  request: robotsRequest,
+  timeout?: number
+): Promise<robotsTxt> => {
+  const url = `${origin}/robots.txt`;
+  if (request.replayHar) return replayRobotsTxt(request.replayHar, url);
+  const headers: Record<string, string> =
+    userAgent === "*" ? {} : { "user-agent": userAgent };
+  const dispatcher = request.proxy && proxyDispatcher(request.proxy, url);
+  const started = Date.now();
+  try {
+    const response = await fetch(url, {
+      headers,
+      signal: timeout ? AbortSignal.timeout(timeout) : undefined,
+      dispatcher,
+    });
+    const body = Buffer.from(await response.arrayBuffer());
+    request.recorder?.record(
+      Promise.resolve({
+        started,
+        finished: Date.now(),
+        request: { url, method: "GET", headers },
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          headers: Object.fromEntries(response.headers),
+          body,
+        },
+      })
+    );
+    return toRobotsTxt(response.status, body.toString("utf8"));
+  } catch (error) {
+    return {
+      groups: [],
+      unreachable: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    await dispatcher?.close();
+  }
+};
+
+/**
+ * Returns the robots.txt of an origin, fetched once per process and shared by every browser instance
+ * that requests it with the same user agent and proxy. An unreachable robots.txt is only cached for a backoff
+ * that doubles with every consecutive failure
+ *
+ * @param origin - The origin of the navigated URL
+ * @param userAgent - The user agent sent with the request, "*" sends the default one
+ * @param request - How the request reaches the site
+ * @param timeout - Optional. Timeout of the request
+ */
+export const getRobotsTxt = async (
+  origin: string,
+  userAgent: string,
+  request: robotsRequest = {},
+  timeout?: number
+): Promise<robotsTxt> => {
+  //sites may serve a different file by user agent or egress IP
+  const key = [
+    origin,
+    userAgent,
+    request.proxy?.server ?? "",
+    request.replayHar ?? "",
+  ].join(" ");
+  const cached = cache.get(key);
+  if (cached && cached.expires > Date.now()) return await cached.robots;
+  const robots = fetchRobotsTxt(origin, userAgent, request, timeout);
+  const entry = { expires: Date.now() + CACHE_TTL, robots, failures: 0 };
+  cache.set(key, entry);
+  const result = await robots;
+  if (result.unreachable !== undefined) {
+    entry.failures = (cached?.failures ?? 0) + 1;
+    entry.expires =
+      Date.now() +
+      Math.min(CACHE_TTL, UNREACHABLE_BACKOFF * 2 ** (entry.failures - 1));
+  }
+  return result;
+};
+
+/**
+ * Applies robots.txt to a navigation when respectRobotsTxt is enabled: disallowed URLs throw a RobotsDisallowedError,
+ * or resolve to false when robotsDisallowed is "skip", and allowed ones wait for the Crawl-delay of their origin.
+ * An unreachable robots.txt throws a RobotsUnreachableError
+ *
+ * @param url - The absolute URL about to be loaded
+ * @param config - The config of the browser instance
+ * @param timeout - Optional. Timeout of the robots.txt request
+ * @param request - Optional. How the robots.txt request reaches the site
+ *
+ * @returns Whether the navigation may go on
+ */
+export const checkRobotsTxt = async (
+  url: string,
+  config: Readonly<baseConfig>,
+  timeout?: number,
+  request: robotsRequest = {}
+): Promise<boolean> => {
+  if (!config.respectRobotsTxt) return true;
+  let origin: string;
+  try {
+    origin = new URL(url).origin;
+  } catch {
+    //let the engine report the invalid URL
+    return true;
+  }
+  if (origin === "null") return true;
+
+  const userAgent = config.robotsUserAgent ?? "*";
+  const robots = await getRobotsTxt(
+    origin,
+    userAgent,
+    { replayHar: config.replayHar, ...request },
+    timeout
+  );
+  //not a disallow of the site, it is reported as an error even when disallowed URLs are skipped
+  if (robots.unreachable !== undefined)
+    throw new RobotsUnreachableError(
+      `robots.txt of ${origin} could not be fetched: ${robots.unreachable}`,
+      { url }
+    );
+  if (!isAllowedByRobots(robots, url, userAgent)) {
+    if (config.robotsDisallowed === "skip") return false;
+    throw new RobotsDisallowedError(
+      `${url} is disallowed: robots.txt disallows it for ${userAgent}`,
+      { url }
+    );
+  }
+
+  const delay = crawlDelay(robots, userAgent) * 1000;
+  if (delay) {
+    //the slot is reserved before waiting so concurrent navigations queue up
+    const visit = Math.max(Date.now(), (lastVisits.get(origin) ?? 0) + delay);
+    lastVisits.set(origin, visit);
+    await sleep(visit - Date.now());
+  }
+  return true;
+};
@@ -0,0 +1,208 @@
+import {
+  SelectorType,
+  SelectorTypeOption,
+} from "../../types/interfaces/baseBrowser";
+import { BackendUnsupportedError } from "./errors";
+
+/**
+ * A selector reduced to its type and bare value, `type: "css"` means the string is passed through untouched
+ */
+export interface ResolvedSelector {
+  type: SelectorType | "css";
+  value: string;
+}
+
+/**
+ * A selenium locator strategy, kept engine neutral so it can be turned into a `By`
+ */
+export interface WebdriverLocator {
+  using: "css selector" | "xpath";
+  value: string;
+}
+
+/**
+ * Guesses the selector type from its shape, returns undefined for anything that should be treated as css
+ *
+ * @param selector - The selector to inspect
+ *
+ * @returns The detected selector type
+ */
+export const detectSelectorType = (
+  selector: string
+): SelectorType | undefined => {
+  const trimmed = selector.trim();
+  if (/^xpath=/.test(trimmed) || /^\(*\.{0,2}\//.test(trimmed))
+    return SelectorType.xpath;
+  if (/^text=/.test(trimmed) || /^(["']).*\1$/.test(trimmed))
+    return SelectorType.text;
+  if (/^#[\w-]+$/.test(trimmed)) return SelectorType.id;
+  if (/^\.[\w-]+$/.test(trimmed)) return SelectorType.class;
+  if (/^[a-zA-Z][\w-]*$/.test(trimmed)) return SelectorType.tag;
+  return undefined;
+};
+
+/**
+ * Resolves a selector into its type and bare value, using the forced type when one is given
+ *
+ * @param selector - The selector to resolve
+ * @param forceSelectorType - Optional. The type of selector to use instead of detecting it
+ *
+ * @returns The resolved selector
+ */
+export const resolveSelector = (
+  selector: string,
+  forceSelectorType?: SelectorTypeOption
+): ResolvedSelector => {
+  const type =
+    (forceSelectorType as SelectorType | undefined) ??
+    detectSelectorType(selector);
+  const trimmed = selector.trim();
+  switch (type) {
+    case SelectorType.id:
+      return { type, value: trimmed.replace(/^#/, "") };
+    case SelectorType.class:
+      return { type, value: trimmed.replace(/^\./, "") };
+    case SelectorType.xpath:
+      return { type, value: trimmed.replace(/^xpath=/, "") };
+    case SelectorType.text:
+      return {
+        type,
+        value: trimmed.replace(/^text=/, "").replace(/^(["'])(.*)\1$/, "$2"),
+      };
+    case SelectorType.tag:
+      return { type, value: trimmed };
+    default:
+      return { type: "css", value: selector };
+  }
+};
+
+const quote = (value: string): string =>
+  `"${value.replace(/["\\]/g, "\\$&")}"`;
+
+const xpathLiteral = (value: string): string => {
+  if (!value.includes('"')) return `"${value}"`;
+  if (!value.includes("'")) return `'${value}'`;
+  return `concat(${value
+    .split('"')
+    .map((part) => `"${part}"`)
+    .join(`, '"', `)})`;
+};
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+
+/**
+ * Makes an absolute XPath relative to the element it is evaluated from,
+ * engines other than playwright otherwise search the whole document
+ */
+const scopeXpath = (value: string): string => value.replace(/^(\(*)\//, "$1./");
+
+const toCss = ({ type, value }: ResolvedSelector): string => {
+  switch (type) {
+    case SelectorType.id:
+      return `[id=${quote(value)}]`;
+    case SelectorType.class:
+      return `[class~=${quote(value)}]`;
+    default:
+      return value;
+  }
+};
+
+export const toPlaywrightSelector = (
+  selector: string,
+  forceSelectorType?: SelectorTypeOption
+): string => {
+  const resolved = resolveSelector(selector, forceSelectorType);
+  switch (resolved.type) {
+    case SelectorType.xpath:
+      return `xpath=${resolved.value}`;
+    //a regular expression keeps the match case-sensitive like the other engines
+    case SelectorType.text:
+      return `text=/${escapeRegExp(resolved.value)}/`;
+    default:
+      return toCss(resolved);
+  }
+};
+
+/**
+ * @param scoped - Optional. Whether the selector is evaluated from an element rather than the document
+ */
+export const toPuppeteerSelector = (
+  selector: string,
+  forceSelectorType?: SelectorTypeOption,
+  scoped = false
+): string => {
+  const resolved = resolveSelector(selector, forceSelectorType);
+  switch (resolved.type) {
+    case SelectorType.xpath:
+      return `xpath/${scoped ? scopeXpath(resolved.value) : resolved.value}`;
+    case SelectorType.text:
+      return `text/${resolved.value}`;
+    default:
+      return toCss(resolved);
+  }
+};
+
+/**
+ * @param scoped - Optional. Whether the locator is evaluated from an element rather than the document
+ */
+export const toWebdriverLocator = (
+  selector: string,
+  forceSelectorType?: SelectorTypeOption,
+  scoped = false
+): WebdriverLocator => {
+  const resolved = resolveSelector(selector, forceSelectorType);
+  switch (resolved.type) {
+    case SelectorType.xpath:
+      return {
+        using: "xpath",
+        value: scoped ? scopeXpath(resolved.value) : resolved.value,
+      };
+    case SelectorType.text: {
+      // the deepest elements containing the text, like the text engines of playwright and puppeteer
+      const contains = `contains(normalize-space(.), ${xpathLiteral(
+        resolved.value
+      )})`;
+      return {
+        using: "xpath",
+        value: `.//*[${contains} and not(.//*[${contains}])]`,
+      };
+    }
+    default:
+      return { using: "css selector", value: toCss(resolved) };
+  }
+};
+
+export const toCheerioSelector = (
+  selector: string,
+  forceSelectorType?: SelectorTypeOption
+): string => {
+  const resolved = resolveSelector(selector, forceSelectorType);
+  switch (resolved.type) {
+    case SelectorType.xpath:
+      throw new BackendUnsupportedError(
+        `XPath selector ${resolved.value} is unsupported in static mode`
+      );
+    case SelectorType.text: {
+      const contains = `:contains(${quote(resolved.value)})`;
+      return `*${contains}:not(:has(${contains}))`;
+    }
+    default:
+      return toCss(resolved);
+  }
+};
+
+/**
+ * Indexes of the distinct elements in document order, evaluated in the page to merge the matches of several parents
+ */
+export const uniqueInDocumentOrder = (...elements: Element[]): number[] =>
+  elements
+    .map((element, index) => ({ element, index }))
+    .filter(({ element, index }) => elements.indexOf(element) === index)
+    .sort((a, b) =>
+      a.element.compareDocumentPosition(b.element) &
+      Node.DOCUMENT_POSITION_FOLLOWING
+        ? -1
+        : 1
+    )
+    .map(({ index }) => index);
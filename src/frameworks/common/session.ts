@@ -0,0 +1,91 @@
+import { readFileSync, writeFileSync } from "fs";
+import {
+  originStorage,
+  sessionCookie,
+  sessionState,
+} from "../../types/interfaces/baseSession";
+
+export const readSession = (path: string): sessionState => {
+  const parsed = JSON.parse(readFileSync(path, "utf8"));
+  if (
+    parsed?.version !== 1 ||
+    !Array.isArray(parsed.cookies) ||
+    !Array.isArray(parsed.origins)
+  )
+    throw new Error(`${path} is not a saved session`);
+  return parsed as sessionState;
+};
+
+/**
+ * Writes a session, cookies set by several contexts are kept once and storage is kept once per origin
+ *
+ * @param path - The file to write
+ * @param cookies - The cookies of every context of the browser
+ * @param origins - The storage read in every tab, undefined for the tabs it couldn't be read in
+ */
+export const writeSession = (
+  path: string,
+  cookies: sessionCookie[],
+  origins: (originStorage | undefined)[]
+): void => {
+  const uniqueCookies = new Map<string, sessionCookie>();
+  for (const cookie of cookies)
+    uniqueCookies.set(`${cookie.domain};${cookie.path};${cookie.name}`, cookie);
+  const uniqueOrigins = new Map<string, originStorage>();
+  for (const storage of origins)
+    if (storage && storage.origin !== "null")
+      uniqueOrigins.set(storage.origin, storage);
+  const session: sessionState = {
+    version: 1,
+    cookies: Array.from(uniqueCookies.values()),
+    origins: Array.from(uniqueOrigins.values()),
+  };
+  writeFileSync(path, JSON.stringify(session, null, 2));
+};
+
+/**
+ * The cookies of a session that haven't expired yet
+ */
+export const liveCookies = (session: sessionState): sessionCookie[] =>
+  session.cookies.filter(
+    (cookie) => cookie.expires === -1 || cookie.expires * 1000 > Date.now()
+  );
+
+/**
+ * Reads the storage of the document, evaluated in the page
+ */
+export const collectStorage = (): originStorage => {
+  const entries = (storage: Storage) => {
+    const values: Record<string, string> = {};
+    for (let index = 0; index < storage.length; index++) {
+      const key = storage.key(index) as string;
+      values[key] = storage.getItem(key) as string;
+    }
+    return values;
+  };
+  return {
+    origin: location.origin,
+    localStorage: entries(localStorage),
+    sessionStorage: entries(sessionStorage),
+  };
+};
+
+/**
+ * Fills the storage of a document from the saved origins before its own scripts run, evaluated in every new document.
+ * A storage is only filled while it is empty so the changes made during the session are kept
+ */
+export const seedStorage = (origins: originStorage[]): void => {
+  const saved = origins.find((storage) => storage.origin === location.origin);
+  if (!saved) return;
+  const fill = (storage: Storage, values: Record<string, string>) => {
+    if (storage.length) return;
+    for (const [key, value] of Object.entries(values))
+      storage.setItem(key, value);
+  };
+  try {
+    fill(localStorage, saved.localStorage);
+    fill(sessionStorage, saved.sessionStorage);
+  } catch {
+    //storage is denied to opaque origins and sandboxed frames
+  }
+};
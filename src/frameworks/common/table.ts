@@ -0,0 +1,136 @@
+import { Cheerio, CheerioAPI, load } from "cheerio";
+import { IBaseElement } from "../../types/interfaces/baseElement";
+import { tableFormat, tableResult } from "../../types/interfaces/baseTable";
+import { ElementNotFoundError } from "./errors";
+import { readOptions } from "./utils";
+
+export interface parsedTable {
+  /**
+   * Every row with colspan and rowspan expanded, so all rows have the same length
+   */
+  grid: string[][];
+  /**
+   * Number of leading rows of the grid that are headers
+   */
+  headerRows: number;
+}
+
+const cellText = ($: CheerioAPI, cell: Cheerio<any>): string =>
+  $(cell).text().replace(/\s+/g, " ").trim();
+
+const span = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value ?? "", 10);
+  return Number.isNaN(parsed) || parsed < 0 ? 1 : parsed || fallback;
+};
+
+/**
+ * Lays out the rows of a table as a grid, cells spanning several rows or columns are copied in every slot they cover
+ *
+ * @param html - HTML containing the table, the first table found is used
+ *
+ * @returns The expanded grid and how many of its rows are headers
+ */
+export const parseTable = (html: string): parsedTable => {
+  const $ = load(html, null, false);
+  const table = $("table").first();
+  if (table.length === 0) throw new ElementNotFoundError("No table found");
+  const sections = (name: string) => table.children(name).children("tr");
+  const head = sections("thead").toArray();
+  //rows are read in rendering order, the header before the body and the footer last
+  const rows = [
+    ...head,
+    ...table.children("tbody").children("tr").toArray(),
+    ...table.children("tr").toArray(),
+    ...sections("tfoot").toArray(),
+  ];
+
+  const grid: string[][] = [];
+  rows.forEach((row, rowIndex) => {
+    grid[rowIndex] ??= [];
+    let column = 0;
+    $(row)
+      .children("th, td")
+      .each((_, cell) => {
+        while (grid[rowIndex][column] !== undefined) column++;
+        const text = cellText($, $(cell));
+        const colspan = span($(cell).attr("colspan"), 1);
+        //rowspan="0" spans to the last row
+        const rowspan = span($(cell).attr("rowspan"), rows.length - rowIndex);
+        const lastRow = Math.min(rowIndex + rowspan, rows.length);
+        for (let r = rowIndex; r < lastRow; r++) {
+          grid[r] ??= [];
+          for (let c = column; c < column + colspan; c++) grid[r][c] = text;
+        }
+        column += colspan;
+      });
+  });
+
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  const filled = grid.map((row) =>
+    Array.from({ length: width }, (_, i) => row[i] ?? "")
+  );
+
+  //without a thead, the leading rows made only of th cells are the headers
+  let headerRows = head.length;
+  if (headerRows === 0) {
+    while (
+      headerRows < rows.length &&
+      $(rows[headerRows]).children("td").length === 0 &&
+      $(rows[headerRows]).children("th").length > 0
+    )
+      headerRows++;
+  }
+  return { grid: filled, headerRows };
+};
+
+/**
+ * Builds one key per column from the header rows, repeated headers of a spanning cell are kept once
+ */
+export const tableHeaders = (
+  table: parsedTable,
+  separator = " / "
+): string[] => {
+  const seen = new Map<string, number>();
+  const width = table.grid[0]?.length ?? 0;
+  return Array.from({ length: width }, (_, column) => {
+    const parts = table.grid
+      .slice(0, table.headerRows)
+      .map((row) => row[column])
+      .filter((text, i, all) => text && text !== all[i - 1]);
+    const header = parts.join(separator) || `column${column + 1}`;
+    const count = (seen.get(header) ?? 0) + 1;
+    seen.set(header, count);
+    return count > 1 ? `${header}_${count}` : header;
+  });
+};
+
+/**
+ * Reads the table targeted by an element, or the first table inside it, using only IBaseElement actions
+ *
+ * @param element - The table or an element containing it
+ * @param format - Optional. "matrix" (default) or "objects"
+ * @param separator - Optional. Joins the headers of a column spanning several header rows
+ * @param timeout - Optional. Timeout of the reads
+ *
+ * @returns The rows of the table as a matrix or as header keyed objects
+ */
+export const extractTable = async <F extends tableFormat = "matrix">(
+  element: IBaseElement,
+  format?: F,
+  separator?: string,
+  timeout?: number
+): Promise<tableResult<F>> => {
+  const options = readOptions(timeout);
+  const tagName = await element.getTagName(options);
+  const html = await element.getHTML(options);
+  const table = parseTable(
+    tagName === "table" ? `<table>${html}</table>` : html
+  );
+  if (format !== "objects") return table.grid as tableResult<F>;
+  const headers = tableHeaders(table, separator);
+  return table.grid
+    .slice(table.headerRows)
+    .map((row) =>
+      Object.fromEntries(headers.map((header, i) => [header, row[i]]))
+    ) as tableResult<F>;
+};
@@ -1,25 +1,217 @@
-import { actionOptions } from "../../types/interfaces/baseActionoptions";
+import { actionOptions, retryOn } from "../../types/interfaces/baseActionoptions";
 import { baseConfig } from "../../types/interfaces/baseConfig";
+import { urlPattern } from "../../types/interfaces/baseBrowser";
+import { ILogger, LogEntry, LogLevel } from "../../types/interfaces/baseLogger";
+import { ConsoleLogger } from "./loggers";
+import { ActionError, ActionErrorClass, ActionTimeoutError, BackendUnsupportedError, errorClassifier, RobotsDisallowedError, RobotsUnreachableError } from "./errors";
 
-interface safeRunOptions extends actionOptions {
+/**
+ * Where an action runs, attached to every log entry it produces
+ */
+export interface actionContext {
+    backend?: string;
+    tab?: number;
+    selector?: string;
+    logger?: ILogger;
+    /**
+     * Url of the page the action runs on, attached to errors
+     */
+    currentUrl?: () => Promise<string>;
+    /**
+     * Maps the backend's native errors onto the framework error classes
+     */
+    classifyError?: errorClassifier;
+}
+
+export interface runOptions extends actionOptions, actionContext {}
+
+interface safeRunOptions extends runOptions {
     message: string;
+    /**
+     * Error class used when the classifier has nothing more specific, e.g. NavigationError for navigations
+     */
+    errorClass?: ActionErrorClass;
 }
 
-export const safeRun = async function<T> (options: safeRunOptions, callBack: (...args: any) => Promise<T>): Promise<T>  {
-    let results;
-    if(options.log) console.log(options.message);
-    try{
-        results = await callBack();
+const defaultLogger = new ConsoleLogger();
+
+const writeLog = (options: safeRunOptions, level: LogLevel, fields: Partial<LogEntry> = {}) => {
+    (options.logger ?? defaultLogger).log({
+        level,
+        timestamp: new Date().toISOString(),
+        message: options.message,
+        backend: options.backend,
+        tab: options.tab,
+        selector: options.selector,
+        ...fields,
+    });
+};
+
+const errorMessage = (error: unknown): string =>
+    error instanceof Error ? error.message : String(error);
+
+const timeoutMessage = (options: safeRunOptions, elapsed: number): string =>
+    `${options.message} timed out after ${elapsed}ms`;
+
+const toActionError = async (error: unknown, options: safeRunOptions, elapsed: number): Promise<ActionError> => {
+    let url: string | undefined;
+    try{ url = await options.currentUrl?.(); }
+    catch{ url = undefined; }
+    if(error instanceof ActionError){
+        error.action ??= options.message;
+        error.selector ??= options.selector;
+        error.url ??= url;
+        return error;
     }
-    catch(e){
-        if(options.throwOnFail) throw e;
-        else console.log(e);
+    const errorClass = (await options.classifyError?.(error)) ?? options.errorClass ?? ActionError;
+    //native timeouts get the same message as the ones enforced by safeRun
+    const message = errorClass === ActionTimeoutError
+        ? timeoutMessage(options, elapsed)
+        : `${options.message} failed: ${errorMessage(error)}`;
+    return new errorClass(message, {
+        action: options.message,
+        selector: options.selector,
+        url,
+        cause: error,
+    });
+};
+
+//engine calls get the timeout too, the grace lets them report their own more specific error first
+const TIMEOUT_GRACE = 500;
+
+//timeouts raised while the action is still running, the abandoned attempt may still act on the page
+const abandonedAttempts = new WeakSet<Error>();
+
+/**
+ * Rejects with an ActionTimeoutError when the action outlives options.timeout, a timeout of 0 disables it.
+ * The action keeps running in the background, its late outcome is ignored
+ */
+const withTimeout = <T>(options: safeRunOptions, run: Promise<T>): Promise<T> => {
+    const timeout = options.timeout;
+    if(!timeout) return run;
+    const started = Date.now();
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            const error = new ActionTimeoutError(timeoutMessage(options, Date.now() - started));
+            abandonedAttempts.add(error);
+            run.catch(() => undefined);
+            reject(error);
+        }, timeout + TIMEOUT_GRACE);
+        run.then(
+            (value) => { clearTimeout(timer); resolve(value); },
+            (error) => { clearTimeout(timer); reject(error); },
+        );
+    });
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+//matches the class of the error or any of its parent classes by name
+const hasClassName = (error: ActionError, name: string): boolean => {
+    for(let proto = Object.getPrototypeOf(error); proto; proto = Object.getPrototypeOf(proto)){
+        if(proto.constructor.name === name) return true;
+    }
+    return false;
+};
+
+/**
+ * Unsupported members and URLs disallowed by robots.txt fail the same way every time so they are not retried unless asked for,
+ * neither is an unreachable robots.txt which is only fetched again once its backoff is over.
+ * An attempt abandoned on timeout is never retried, the retry would run alongside it and repeat its clicks or fills
+ */
+const shouldRetry = (error: ActionError, attempt: number, condition?: retryOn): boolean => {
+    if(abandonedAttempts.has(error)) return false;
+    if(!condition) return !(error instanceof BackendUnsupportedError || error instanceof RobotsDisallowedError || error instanceof RobotsUnreachableError);
+    if(typeof condition === "function") return condition(error, attempt);
+    return condition.some((entry) => typeof entry === "string" ? hasClassName(error, entry) : error instanceof entry);
+};
+
+const retryDelay = (attempt: number, options: actionOptions): number => {
+    const delay = options.retryDelay ?? 0;
+    switch(options.retryBackoff){
+        case "exponential": return delay * 2 ** (attempt - 1);
+        case "jitter": return Math.random() * delay * 2 ** (attempt - 1);
+        default: return delay;
+    }
+};
+
+/**
+ * Runs an action with the logging, retry, timeout and error handling described by its options.
+ * The callback receives the resolved timeout so it can be passed on to the engine's own calls
+ */
+export const safeRun = async function<T> (options: safeRunOptions, callBack: (timeout?: number) => Promise<T>): Promise<T>  {
+    let results;
+    const started = Date.now();
+    const retries = options.retries ?? 0;
+    for(let attempt = 1; ; attempt++){
+        //the attempt number is only logged when the action can be retried
+        const attemptField = retries ? { attempt } : {};
+        const attemptStarted = Date.now();
+        if(options.log) writeLog(options, "debug", attemptField);
+        try{
+            results = await withTimeout(options, callBack(options.timeout));
+            if(options.log) writeLog(options, "info", { outcome: "success", duration: Date.now() - started, ...attemptField });
+            break;
+        }
+        catch(e){
+            const error = await toActionError(e, options, Date.now() - attemptStarted);
+            if(attempt <= retries && shouldRetry(error, attempt, options.retryOn)){
+                if(options.log) writeLog(options, "warn", {
+                    outcome: "failure",
+                    duration: Date.now() - started,
+                    error: errorMessage(e),
+                    ...attemptField,
+                });
+                await sleep(retryDelay(attempt, options));
+                continue;
+            }
+            // swallowed errors are always reported so failures never go unnoticed
+            if(options.log || !options.throwOnFail) writeLog(options, "error", {
+                outcome: "failure",
+                duration: Date.now() - started,
+                error: errorMessage(e),
+                ...attemptField,
+            });
+            if(options.throwOnFail) throw error;
+            break;
+        }
     }
     return results as T;
 };
 
-export const getActionOptionsFromConfig = (config: baseConfig): actionOptions => ({
+export const getActionOptionsFromConfig = (config: Readonly<baseConfig>, context: actionContext = {}): runOptions => ({
     timeout: config.actionTimeout,
     log: config.logs,
     throwOnFail: config.throwOnFail,
-});
\ No newline at end of file
+    logger: config.logger,
+    retries: config.retries,
+    retryDelay: config.retryDelay,
+    retryBackoff: config.retryBackoff,
+    retryOn: config.retryOn,
+    ...context,
+});
+
+const actionOptionKeys: (keyof actionOptions)[] = ["timeout", "log", "throwOnFail", "retries", "retryDelay", "retryBackoff", "retryOn"];
+
+/**
+ * Keeps only the action options of a wider options object, undefined keys are left out so they don't override the browser's configuration
+ */
+export const pickActionOptions = (options: actionOptions): actionOptions =>
+    Object.fromEntries(actionOptionKeys.filter((key) => options[key] !== undefined).map((key) => [key, options[key]]));
+
+/**
+ * Options of the reads made inside a composite action, they never log or retry on their own.
+ * Without a timeout the reads keep the one of the browser's configuration
+ */
+export const readOptions = (timeout?: number): actionOptions => ({
+    ...(timeout !== undefined && { timeout }),
+    log: false,
+    throwOnFail: true,
+    retries: 0,
+});
+
+/**
+ * Whether the URL matches any of the patterns, strings match when the URL contains them
+ */
+export const matchesUrl = (url: string, patterns: urlPattern[]): boolean =>
+    patterns.some((pattern) => typeof pattern === "string" ? url.includes(pattern) : pattern.test(url));
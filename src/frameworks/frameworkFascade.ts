@@ -1,16 +1,21 @@
 import { IBaseBrowser } from "../types/interfaces/baseBrowser";
+import { baseConfig } from "../types/interfaces/baseConfig";
 import { PlaywrightBrowser } from "./playwright/playwright.browser";
 import { PuppeteerBrowser } from "./puppeteer/puppeteer.browser";
+import { SeleniumBrowser } from "./selenium/selenium.browser";
+import { StaticBrowser } from "./static/static.browser";
 
 export class frameworkSelector {
-  static async playwright() : Promise<IBaseBrowser>{
-    return await PlaywrightBrowser.init();
+  static async playwright(config?: baseConfig) : Promise<IBaseBrowser>{
+    return await PlaywrightBrowser.init(config);
+  }
+  static async puppeteer(config?: baseConfig): Promise<IBaseBrowser> {
+    return await PuppeteerBrowser.init(config);
+  }
+  static async static(config?: baseConfig): Promise<IBaseBrowser> {
+    return await StaticBrowser.init(config);
+  }
+  static async selenium(config?: baseConfig): Promise<IBaseBrowser> {
+    return await SeleniumBrowser.init(config);
   }
-/*   static async puppeteer(): Promise<IBaseBrowser> {
-    return await PuppeteerBrowser.init();
-  } */
-
-    /*  static selenium() : IBaseBrowser{
-    }
-  } */
 }
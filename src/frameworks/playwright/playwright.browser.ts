@@ -1,80 +1,227 @@
 import {
   BrowserContext,
+  Dialog,
   Page,
+  Request,
   Browser,
   chromium,
+  errors,
   firefox,
   webkit,
 } from "playwright";
-import { IBaseBrowser } from "../../types/interfaces/baseBrowser";
-import { PlaywrightSelector } from "./playwright.element";
+import {
+  IBaseBrowser,
+  SelectorTypeOption,
+} from "../../types/interfaces/baseBrowser";
+import { PlaywrightSelector, registerHandleEngine } from "./playwright.element";
 import { IBaseElement } from "../../types/interfaces/baseElement";
 import { actionOptions } from "../../types/interfaces/baseActionoptions";
-import { getActionOptionsFromConfig, safeRun } from "../common/utils";
-import { baseConfig, configOverrides } from "../../types/interfaces/baseConfig";
+import {
+  actionContext,
+  getActionOptionsFromConfig,
+  runOptions,
+  safeRun,
+} from "../common/utils";
+import {
+  BackendUnsupportedError,
+  DialogNotPresentError,
+  NavigationError,
+  TabNotFoundError,
+} from "../common/errors";
+import { classifyPlaywrightError } from "./playwright.errors";
+import { toPlaywrightSelector } from "../common/selectors";
+import { baseConfig } from "../../types/interfaces/baseConfig";
+import { loadConfig } from "../common/configLoader";
+import { extractSchema } from "../common/extract";
+import { navigate } from "../common/navigation";
+import { robotsRequest } from "../common/robots";
+import { HarRecorder } from "../common/har";
+import { cannedBody, resolveInterception } from "../common/interception";
+import { interceptRule } from "../../types/interfaces/baseInterception";
+import { flushDatasets } from "../common/dataset";
+import {
+  nextProxy,
+  opensProxyContext,
+  trackProxyHealth,
+  usesProxy,
+} from "../common/proxy";
+import { proxySettings } from "../../types/interfaces/baseProxy";
+import {
+  collectStorage,
+  liveCookies,
+  readSession,
+  seedStorage,
+  writeSession,
+} from "../common/session";
+import { ResponseListeners } from "../common/responses";
+import {
+  capturedResponse,
+  responseCapture,
+  responseMatcher,
+} from "../../types/interfaces/baseResponses";
+import { scrollUntilExhausted } from "../common/harvest";
+import { harvestOptions } from "../../types/interfaces/baseHarvest";
+import {
+  extractionResult,
+  extractionSchema,
+} from "../../types/interfaces/baseSchema";
+
+//proxy of every context opened with one, marked unhealthy when a navigation through it fails
+const contextProxies = new WeakMap<BrowserContext, proxySettings>();
+//contexts opened besides the one of the browser, for a worker or a rotated proxy, closed with their last page
+const secondaryContexts = new WeakSet<BrowserContext>();
+
+/**
+ * Every context sets its own proxy so the browser is launched without one, except chromium on Windows which
+ * refuses context proxies without a global one. "per-context" is the placeholder playwright documents for it,
+ * it is never used since every context overrides it
+ */
+export const launchProxy = (
+  config: Readonly<baseConfig>,
+  platform: NodeJS.Platform = process.platform
+): { server: string } | undefined =>
+  usesProxy(config) && config.browser === "chromium" && platform === "win32"
+    ? { server: "per-context" }
+    : undefined;
+
+const openContext = async (
+  browser: Browser,
+  config: Readonly<baseConfig>,
+  primary: boolean
+): Promise<BrowserContext> => {
+  const proxy = nextProxy(config);
+  const context = await browser.newContext({
+    proxy: proxy && { ...proxy, bypass: proxy.bypass?.join(",") },
+  });
+  if (proxy) contextProxies.set(context, proxy);
+  if (!primary) secondaryContexts.add(context);
+  if (config.replayHar)
+    await context.routeFromHAR(config.replayHar, { notFound: "abort" });
+  if (config.restoreSession) {
+    const session = readSession(config.restoreSession);
+    await context.addCookies(liveCookies(session));
+    await context.addInitScript(seedStorage, session.origins);
+  }
+  return context;
+};
 
 export class PlaywrightBrowser implements IBaseBrowser {
-  private config: baseConfig;
-  private actionOptions: actionOptions;
+  private config: Readonly<baseConfig>;
   private tabs: Page[] = [];
   private currentTab: number = 0;
+  private interceptRules: interceptRule[] = [];
+  private routedPages = new WeakSet<Page>();
+  private responses = new ResponseListeners();
 
   private constructor(
     private browser: Browser,
     private context: BrowserContext,
     private page: Page,
-    config: baseConfig
+    config: Readonly<baseConfig>,
+    //every context records to the same HAR, shared with the workers like in puppeteer
+    private harRecorder: HarRecorder | undefined,
+    //workers share the browser of the instance that opened them
+    private isWorker: boolean = false
   ) {
     this.browser = browser;
     this.context = context;
     this.page = page;
     this.tabs.push(this.page);
     this.config = config;
-    this.actionOptions = getActionOptionsFromConfig(this.config);
+    this.harRecorder = harRecorder;
+    this.listenToResponses(this.page);
+    this.recordPage(this.page);
   }
 
-  static async init(): Promise<IBaseBrowser> {
-    const config = configOverrides();
+  private get actionContext(): actionContext {
+    const page = this.page;
+    return {
+      backend: "playwright",
+      tab: this.currentTab,
+      currentUrl: async () => page.url(),
+      classifyError: classifyPlaywrightError,
+    };
+  }
+
+  //robots.txt is requested through the proxy of the current page and recorded with its traffic
+  private get robotsRequest(): robotsRequest {
+    return {
+      proxy: contextProxies.get(this.page.context()),
+      recorder: this.harRecorder,
+    };
+  }
+
+  private get actionOptions(): runOptions {
+    return getActionOptionsFromConfig(this.config, this.actionContext);
+  }
+
+  static async init(overrides?: baseConfig): Promise<IBaseBrowser> {
+    const config = loadConfig(overrides);
+    await registerHandleEngine();
+    const launchOptions = {
+      headless: config.headless,
+      timeout: config.actionTimeout,
+      proxy: launchProxy(config),
+    };
     let browser;
     switch (config.browser) {
       case "chromium":
-        browser = await chromium.launch({
-          headless: config.headless,
-          timeout: config.actionTimeout,
-        });
+        browser = await chromium.launch(launchOptions);
         break;
       case "firefox":
-        browser = await firefox.launch({
-          headless: config.headless,
-          timeout: config.actionTimeout,
-        });
+        browser = await firefox.launch(launchOptions);
         break;
       case "webkit":
-        browser = await webkit.launch({
-          headless: config.headless,
-          timeout: config.actionTimeout,
-        });
+        browser = await webkit.launch(launchOptions);
         break;
       default:
-        throw new Error(
+        throw new BackendUnsupportedError(
           `Browser ${config.browser} is not supported for playwright`
         );
     }
-    const context = await browser.newContext();
+    const context = await openContext(browser, config, true);
     const page = await context.newPage();
-    return new PlaywrightBrowser(browser, context, page, config);
+    const recorder = config.recordHar
+      ? new HarRecorder(config.recordHar)
+      : undefined;
+    return new PlaywrightBrowser(browser, context, page, config, recorder);
   }
 
-  public selector(selector: string): IBaseElement {
-    return new PlaywrightSelector(this.page.locator(selector), this.config);
+  public selector(
+    selector: string,
+    forceSelectorType?: SelectorTypeOption
+  ): IBaseElement {
+    return new PlaywrightSelector(
+      this.page.locator(toPlaywrightSelector(selector, forceSelectorType)),
+      this.config,
+      { ...this.actionContext, selector }
+    );
   }
 
-  public async navigateTo(url: string, options?: actionOptions): Promise<void> {
+  public async navigateTo(
+    url: string,
+    options?: actionOptions
+  ): Promise<boolean> {
+    //the safeRun timeout would count the delays of the crawling rules, the engine bounds the load instead
+    const timeout = options?.timeout ?? this.actionOptions.timeout;
     return await safeRun(
-      { message: `Navigating to ${url}`, ...this.actionOptions, ...options },
-      async () => {
-        await this.page.goto(url);
-      }
+      {
+        message: `Navigating to ${url}`,
+        errorClass: NavigationError,
+        ...this.actionOptions,
+        ...options,
+        timeout: 0,
+      },
+      async () =>
+        await navigate(
+          url,
+          this.config,
+          timeout,
+          async () => {
+            await this.goto(url, timeout);
+          },
+          this.robotsRequest
+        )
     );
   }
 
@@ -91,47 +238,101 @@ export class PlaywrightBrowser implements IBaseBrowser {
     return await safeRun(
       { message: "Closing browser", ...this.actionOptions, ...options },
       async () => {
-        await this.browser.close();
+        if (this.isWorker) {
+          for (const tab of this.tabs) await this.closePage(tab);
+          this.tabs = [];
+          return;
+        }
+        await this.shutdown();
       }
     );
   }
 
+  /**
+   * Closes the browser once its last tab or the browser itself is closed, the buffered records
+   * of the datasets are written first
+   */
+  private async shutdown() {
+    flushDatasets();
+    //response bodies can't be read once the browser is closed
+    await this.harRecorder?.save();
+    await this.context.close();
+    await this.browser.close();
+  }
+
   public async navigateBack(options?: actionOptions): Promise<void> {
     return await safeRun(
-      { message: "Navigating back", ...this.actionOptions, ...options },
-      async () => {
-        await this.page.goBack();
+      {
+        message: "Navigating back",
+        errorClass: NavigationError,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        await this.page.goBack({ timeout });
       }
     );
   }
 
   public async navigateForward(options?: actionOptions): Promise<void> {
     return await safeRun(
-      { message: "Navigating forward", ...this.actionOptions, ...options },
-      async () => {
-        await this.page.goForward();
+      {
+        message: "Navigating forward",
+        errorClass: NavigationError,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        await this.page.goForward({ timeout });
       }
     );
   }
 
   public async refresh(options?: actionOptions): Promise<void> {
     return await safeRun(
-      { message: "Refreshing page", ...this.actionOptions, ...options },
-      async () => {
-        await this.page.reload();
+      {
+        message: "Refreshing page",
+        errorClass: NavigationError,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        await this.page.reload({ timeout });
       }
     );
   }
 
   public async openTab(url?: string, options?: actionOptions): Promise<void> {
+    //like navigateTo, the delays of the crawling rules are not counted, the engine bounds the load instead
+    const timeout = options?.timeout ?? this.actionOptions.timeout;
     return await safeRun(
-      { message: "Opening new tab", ...this.actionOptions, ...options },
+      {
+        message: "Opening new tab",
+        ...this.actionOptions,
+        ...options,
+        timeout: url ? 0 : timeout,
+      },
       async () => {
-        const newPage = await this.context.newPage();
+        const context = opensProxyContext(this.config)
+          ? await openContext(this.browser, this.config, false)
+          : this.context;
+        const newPage = await context.newPage();
+        await this.routePage(newPage);
+        this.listenToResponses(newPage);
+        this.recordPage(newPage);
         this.tabs.push(newPage);
         this.currentTab = this.tabs.length - 1;
         this.page = newPage;
-        if (url) await this.page.goto(url);
+        if (url)
+          await navigate(
+            url,
+            this.config,
+            timeout,
+            async () => {
+              await this.goto(url, timeout);
+            },
+            this.robotsRequest
+          );
       }
     );
   }
@@ -140,13 +341,13 @@ export class PlaywrightBrowser implements IBaseBrowser {
     return await safeRun(
       { message: "Closing tab", ...this.actionOptions, ...options },
       async () => {
-        await this.page.close();
-        if (this.tabs.length === 0) {
-          await this.context.close();
-          await this.browser.close();
-        }
+        await this.closePage(this.page);
         //remove the closed tab from the tabs array
         this.tabs.splice(this.currentTab, 1);
+        if (this.tabs.length === 0) {
+          if (!this.isWorker) await this.shutdown();
+          return;
+        }
         this.currentTab = this.tabs.length - 1;
         this.page = this.tabs[this.currentTab];
       }
@@ -165,13 +366,194 @@ export class PlaywrightBrowser implements IBaseBrowser {
       },
       async () => {
         if (tabNumber < 0 || tabNumber > this.tabs.length - 1)
-          throw new Error(`Tab ${tabNumber} does not exist`);
+          throw new TabNotFoundError(`Tab ${tabNumber} does not exist`);
         this.currentTab = tabNumber;
         this.page = this.tabs[this.currentTab];
       }
     );
   }
 
+  public async openWorker(options?: actionOptions): Promise<IBaseBrowser> {
+    return await safeRun(
+      { message: "Opening worker", ...this.actionOptions, ...options },
+      async () => {
+        //a context of its own keeps the cookies and storage of the worker apart, with the next proxy of the rotation
+        const context = await openContext(this.browser, this.config, false);
+        const page = await context.newPage();
+        return new PlaywrightBrowser(
+          this.browser,
+          context,
+          page,
+          this.config,
+          this.harRecorder,
+          true
+        );
+      }
+    );
+  }
+
+  private async goto(url: string, timeout?: number) {
+    const page = this.page;
+    await trackProxyHealth(contextProxies.get(page.context()), () =>
+      page.goto(url, { timeout })
+    );
+  }
+
+  private async closePage(page: Page) {
+    await page.close();
+    const context = page.context();
+    if (secondaryContexts.has(context) && !context.pages().length)
+      await context.close();
+  }
+
+  private async routePage(page: Page) {
+    if (!this.interceptRules.length || this.routedPages.has(page)) return;
+    this.routedPages.add(page);
+    await page.route("**/*", async (route, request) => {
+      const decision = resolveInterception(this.interceptRules, {
+        url: request.url(),
+        method: request.method(),
+        resourceType: request.resourceType(),
+        headers: request.headers(),
+      });
+      try {
+        if (decision.action === "block") await route.abort("blockedbyclient");
+        else if (decision.action === "fulfill")
+          await route.fulfill({
+            ...cannedBody(decision.response),
+            headers: decision.response.headers,
+          });
+        //falls back to the replayed HAR, if any, before the network
+        else await route.fallback({ headers: decision.headers });
+      } catch {
+        //the page was closed while the request was pending
+      }
+    });
+  }
+
+  public async intercept(
+    rule: interceptRule,
+    options?: actionOptions
+  ): Promise<void> {
+    return await safeRun(
+      {
+        message: `Adding ${rule.action} interception`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        this.interceptRules.push(rule);
+        await Promise.all(this.tabs.map((tab) => this.routePage(tab)));
+      }
+    );
+  }
+
+  public async clearInterceptions(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      { message: "Clearing interceptions", ...this.actionOptions, ...options },
+      async () => {
+        this.interceptRules = [];
+        await Promise.all(this.tabs.map((tab) => tab.unroute("**/*")));
+        this.routedPages = new WeakSet();
+      }
+    );
+  }
+
+  private recordPage(page: Page) {
+    const recorder = this.harRecorder;
+    if (!recorder) return;
+    const started = new WeakMap<Request, number>();
+    page.on("request", (request) => started.set(request, Date.now()));
+    page.on("requestfinished", (request) => {
+      const exchange = {
+        started: started.get(request) ?? Date.now(),
+        finished: Date.now(),
+        request: {
+          url: request.url(),
+          method: request.method(),
+          headers: request.headers(),
+          postData: request.postData() ?? undefined,
+        },
+      };
+      recorder.record(
+        request
+          .response()
+          .then(async (response) => {
+            if (!response) return undefined;
+            return {
+              ...exchange,
+              response: {
+                status: response.status(),
+                statusText: response.statusText(),
+                headers: response.headers(),
+                body: await response.body().catch(() => undefined),
+              },
+            };
+          })
+          .catch(() => undefined)
+      );
+    });
+  }
+
+  private listenToResponses(page: Page) {
+    page.on("response", (response) =>
+      this.responses.emit({
+        url: response.url(),
+        method: response.request().method(),
+        status: response.status(),
+        headers: response.headers(),
+        text: () => response.text(),
+      })
+    );
+  }
+
+  public async captureResponses(
+    matcher: responseMatcher,
+    options?: actionOptions
+  ): Promise<responseCapture> {
+    return await safeRun(
+      { message: "Capturing responses", ...this.actionOptions, ...options },
+      async () => this.responses.capture(matcher)
+    );
+  }
+
+  public async awaitResponse(
+    matcher: responseMatcher,
+    trigger?: () => Promise<unknown>,
+    options?: actionOptions
+  ): Promise<capturedResponse> {
+    return await safeRun(
+      { message: "Waiting for response", ...this.actionOptions, ...options },
+      async (timeout) => await this.responses.next(matcher, trigger, timeout)
+    );
+  }
+
+  public async saveSession(
+    path: string,
+    options?: actionOptions
+  ): Promise<void> {
+    return await safeRun(
+      {
+        message: `Saving session to ${path}`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        //tabs opened for a rotated proxy have a context of their own
+        const contexts = new Set(this.tabs.map((tab) => tab.context()));
+        const cookies = await Promise.all(
+          Array.from(contexts, (context) => context.cookies())
+        );
+        const origins = await Promise.all(
+          this.tabs.map((tab) =>
+            tab.evaluate(collectStorage).catch(() => undefined)
+          )
+        );
+        writeSession(path, cookies.flat(), origins);
+      }
+    );
+  }
+
   public async $eval<T>(
     callBack: (arg: any) => T,
     arg: any,
@@ -185,6 +567,27 @@ export class PlaywrightBrowser implements IBaseBrowser {
     );
   }
 
+  public async extract<const S extends extractionSchema>(
+    schema: S,
+    options?: actionOptions
+  ): Promise<extractionResult<S>> {
+    return await safeRun(
+      {
+        message: "Extracting schema",
+        ...this.actionOptions,
+        //the timeout applies to every read rather than the whole extraction
+        timeout: 0,
+        ...options,
+      },
+      async () =>
+        await extractSchema(
+          this,
+          schema,
+          options?.timeout ?? this.actionOptions.timeout
+        )
+    );
+  }
+
   public get mouseActions() {
     return {
       move: async (
@@ -302,9 +705,24 @@ export class PlaywrightBrowser implements IBaseBrowser {
           }
         );
       },
+      untilExhausted: (options: harvestOptions): AsyncGenerator<IBaseElement> =>
+        scrollUntilExhausted(this, options),
     };
   }
 
+  private async waitForDialog(timeout?: number): Promise<Dialog> {
+    const waitTimeout = timeout ?? this.actionOptions.timeout;
+    try {
+      return await this.page.waitForEvent("dialog", { timeout: waitTimeout });
+    } catch (error) {
+      if (!(error instanceof errors.TimeoutError)) throw error;
+      throw new DialogNotPresentError(
+        `No dialog appeared within ${waitTimeout}ms`,
+        { cause: error }
+      );
+    }
+  }
+
   public get alert() {
     return {
       accept: async (options?: actionOptions): Promise<void> => {
@@ -314,8 +732,8 @@ export class PlaywrightBrowser implements IBaseBrowser {
             ...this.actionOptions,
             ...options,
           },
-          async () => {
-            const alert = await this.page.waitForEvent("dialog");
+          async (timeout) => {
+            const alert = await this.waitForDialog(timeout);
             await alert.accept();
           }
         );
@@ -327,8 +745,8 @@ export class PlaywrightBrowser implements IBaseBrowser {
             ...this.actionOptions,
             ...options,
           },
-          async () => {
-            const alert = await this.page.waitForEvent("dialog");
+          async (timeout) => {
+            const alert = await this.waitForDialog(timeout);
             await alert.dismiss();
           }
         );
@@ -340,8 +758,8 @@ export class PlaywrightBrowser implements IBaseBrowser {
             ...this.actionOptions,
             ...options,
           },
-          async () => {
-            const alert = await this.page.waitForEvent("dialog");
+          async (timeout) => {
+            const alert = await this.waitForDialog(timeout);
             return alert.message();
           }
         );
@@ -356,8 +774,8 @@ export class PlaywrightBrowser implements IBaseBrowser {
             ...this.actionOptions,
             ...options,
           },
-          async () => {
-            const alert = await this.page.waitForEvent("dialog");
+          async (timeout) => {
+            const alert = await this.waitForDialog(timeout);
             await alert.accept(keys);
           }
         );
@@ -374,8 +792,8 @@ export class PlaywrightBrowser implements IBaseBrowser {
             ...this.actionOptions,
             ...options,
           },
-          async () => {
-            await this.page.waitForLoadState();
+          async (timeout) => {
+            await this.page.waitForLoadState("load", { timeout });
           }
         );
       },
@@ -387,6 +805,8 @@ export class PlaywrightBrowser implements IBaseBrowser {
           {
             message: `Waiting for ${timeout}ms`,
             ...this.actionOptions,
+            //the wait itself is not bounded by the action timeout
+            timeout: 0,
             ...options,
           },
           async () => {
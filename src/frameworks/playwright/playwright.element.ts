@@ -1,21 +1,101 @@
 import { actionOptions } from "../../types/interfaces/baseActionoptions";
 import { baseConfig } from "../../types/interfaces/baseConfig";
 import { IBaseElement } from "../../types/interfaces/baseElement";
-import { Locator } from "playwright";
-import { getActionOptionsFromConfig, safeRun } from "../common/utils";
+import { SelectorTypeOption } from "../../types/interfaces/baseBrowser";
+import { Locator, errors, selectors } from "playwright";
+import {
+  actionContext,
+  getActionOptionsFromConfig,
+  runOptions,
+  safeRun,
+} from "../common/utils";
+import { extractSchema } from "../common/extract";
+import { extractTable } from "../common/table";
+import {
+  extractionResult,
+  extractionSchema,
+} from "../../types/interfaces/baseSchema";
+import {
+  tableFormat,
+  tableOptions,
+  tableResult,
+} from "../../types/interfaces/baseTable";
+import { toPlaywrightSelector } from "../common/selectors";
+import { ActionErrorClass, ElementNotFoundError } from "../common/errors";
+import { classifyPlaywrightError } from "./playwright.errors";
+
+//selector engine finding the elements resolved by handle, they are kept by id in the page without marking the DOM
+const HANDLE_ENGINE = "scraper-handle";
+let handleIds = 0;
+let handleEngine: Promise<void> | undefined;
+type handleRegistry = Map<string, { deref(): Element | undefined }>;
+
+//runs in the page, the registry holds weak references so removed elements can still be collected
+const createHandleEngine = () => {
+  const find = (root: Element | Document, id: string): Element | null => {
+    const registry: handleRegistry | undefined = (window as any)
+      .__scraperHandles;
+    const element = registry?.get(id)?.deref();
+    return element && root.contains(element) ? element : null;
+  };
+  return {
+    query: find,
+    queryAll: (root: Element | Document, id: string): Element[] => {
+      const element = find(root, id);
+      return element ? [element] : [];
+    },
+  };
+};
+
+/**
+ * Registers the selector engine handle() locates its elements with, it only applies to the contexts created afterwards
+ */
+export const registerHandleEngine = (): Promise<void> => {
+  if (!handleEngine)
+    handleEngine = selectors.register(HANDLE_ENGINE, createHandleEngine);
+  return handleEngine;
+};
 
 export class PlaywrightSelector implements IBaseElement {
-  private actionOptions: actionOptions;
-  constructor(public locator: Locator, private config: baseConfig) {
-    this.actionOptions = getActionOptionsFromConfig(this.config);
+  private actionOptions: runOptions;
+  constructor(
+    public locator: Locator,
+    private config: Readonly<baseConfig>,
+    private context: actionContext = {}
+  ) {
+    this.actionOptions = getActionOptionsFromConfig(this.config, {
+      ...this.context,
+      classifyError: (error) => this.classifyError(error),
+    });
     this.locator = locator;
+    this.context = context;
+  }
+
+  /**
+   * Locator actions time out when nothing matches, those are reported as missing elements
+   */
+  private async classifyError(
+    error: unknown
+  ): Promise<ActionErrorClass | undefined> {
+    if (error instanceof errors.TimeoutError) {
+      const count = await this.locator.count().catch(() => undefined);
+      if (count === 0) return ElementNotFoundError;
+    }
+    return classifyPlaywrightError(error);
+  }
+
+  private childContext(selector: string): actionContext {
+    return {
+      ...this.context,
+      selector: `${this.context.selector} >> ${selector}`,
+    };
   }
 
   public async click(options?: actionOptions): Promise<void> {
     return await safeRun(
       { message: `Clicking on element`, ...this.actionOptions, ...options },
-      async () => {
-        await this.locator.click();
+      async (timeout) => {
+        await this.locator.click({ timeout });
       }
     );
   }
@@ -27,8 +107,8 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await this.locator.fill(text);
+      async (timeout) => {
+        await this.locator.fill(text, { timeout });
       }
     );
   }
@@ -40,8 +120,8 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return await this.locator.innerText();
+      async (timeout) => {
+        return await this.locator.innerText({ timeout });
       }
     );
   }
@@ -53,8 +133,8 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await this.locator.clear();
+      async (timeout) => {
+        await this.locator.clear({ timeout });
       }
     );
   }
@@ -66,8 +146,8 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await this.locator.click({ button: "right" });
+      async (timeout) => {
+        await this.locator.click({ button: "right", timeout });
       }
     );
   }
@@ -78,19 +158,23 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await this.locator.dblclick();
+      async (timeout) => {
+        await this.locator.dblclick({ timeout });
       }
     );
   }
-  public async selectOption(options: string | number): Promise<void> {
+  public async selectOption(
+    option: string | number,
+    options?: actionOptions
+  ): Promise<void> {
     return await safeRun(
       {
-        message: `Selecting option ${options}`,
+        message: `Selecting option ${option}`,
         ...this.actionOptions,
+        ...options,
       },
-      async () => {
-        await this.locator.selectOption(options.toString());
+      async (timeout) => {
+        await this.locator.selectOption(option.toString(), { timeout });
       }
     );
   }
@@ -101,8 +185,8 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return await this.locator.inputValue();
+      async (timeout) => {
+        return await this.locator.inputValue({ timeout });
       }
     );
   }
@@ -114,8 +198,8 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return await this.locator.isEnabled();
+      async (timeout) => {
+        return await this.locator.isEnabled({ timeout });
       }
     );
   }
@@ -140,8 +224,8 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return await this.locator.isChecked();
+      async (timeout) => {
+        return await this.locator.isChecked({ timeout });
       }
     );
   }
@@ -156,8 +240,8 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return await this.locator.getAttribute(name);
+      async (timeout) => {
+        return await this.locator.getAttribute(name, { timeout });
       }
     );
   }
@@ -172,8 +256,13 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return await this.locator.getAttribute(property).toString();
+      async (timeout) => {
+        return await this.locator.evaluate(
+          (e, property) =>
+            window.getComputedStyle(e).getPropertyValue(property),
+          property,
+          { timeout }
+        );
       }
     );
   }
@@ -187,8 +276,8 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        const boundingBox = (await this.locator.boundingBox()) as {
+      async (timeout) => {
+        const boundingBox = (await this.locator.boundingBox({ timeout })) as {
           x: number;
           y: number;
         };
@@ -207,8 +296,12 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return await this.locator.getAttribute("tag_name").toString();
+      async (timeout) => {
+        return await this.locator.evaluate(
+          (e) => e.tagName.toLowerCase(),
+          undefined,
+          { timeout }
+        );
       }
     );
   }
@@ -220,10 +313,14 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await this.locator.evaluate((e: any) => {
-          e.submit();
-        });
+      async (timeout) => {
+        await this.locator.evaluate(
+          (e: any) => {
+            e.submit();
+          },
+          undefined,
+          { timeout }
+        );
       }
     );
   }
@@ -235,8 +332,8 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await this.locator.hover();
+      async (timeout) => {
+        await this.locator.hover({ timeout });
       }
     );
   }
@@ -251,8 +348,8 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await this.locator.dragTo(target.locator);
+      async (timeout) => {
+        await this.locator.dragTo(target.locator, { timeout });
       }
     );
   }
@@ -267,8 +364,8 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await this.locator.screenshot({ path: filePath });
+      async (timeout) => {
+        await this.locator.screenshot({ path: filePath, timeout });
       }
     );
   }
@@ -280,8 +377,8 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await this.locator.waitFor();
+      async (timeout) => {
+        await this.locator.waitFor({ timeout });
       }
     );
   }
@@ -306,21 +403,54 @@ export class PlaywrightSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return await this.locator.innerHTML();
+      async (timeout) => {
+        return await this.locator.innerHTML({ timeout });
       }
     );
   }
 
+  public async extract<const S extends extractionSchema>(
+    schema: S,
+    options?: actionOptions
+  ): Promise<extractionResult<S>> {
+    return await safeRun(
+      {
+        message: "Extracting schema",
+        ...this.actionOptions,
+        //the timeout applies to every read rather than the whole extraction
+        timeout: 0,
+        ...options,
+      },
+      async () =>
+        await extractSchema(
+          this,
+          schema,
+          options?.timeout ?? this.actionOptions.timeout
+        )
+    );
+  }
+
+  public async extractTable<F extends tableFormat = "matrix">(
+    options?: tableOptions<F>
+  ): Promise<tableResult<F>> {
+    return await safeRun(
+      { message: "Extracting table", ...this.actionOptions, ...options },
+      async (timeout) =>
+        await extractTable(
+          this,
+          options?.format,
+          options?.headerSeparator,
+          timeout
+        )
+    );
+  }
+
   public async forEach(
     callback: (element: IBaseElement, index: number) => Promise<void>
   ): Promise<void> {
     const count = await this.locator.count();
     for (let i = 0; i < count; i++) {
-      await callback(
-        new PlaywrightSelector(this.locator.nth(i), this.config),
-        i
-      );
+      await callback(this.nth(i), i);
     }
   }
 
@@ -330,7 +460,7 @@ export class PlaywrightSelector implements IBaseElement {
     const result: IBaseElement[] = [];
     const count = await this.locator.count();
     for (let i = 0; i < count; i++) {
-      const element = new PlaywrightSelector(this.locator.nth(i), this.config);
+      const element = this.nth(i);
       if (await callback(element, i)) {
         result.push(element);
       }
@@ -344,21 +474,61 @@ export class PlaywrightSelector implements IBaseElement {
     const result: T[] = [];
     const count = await this.locator.count();
     for (let i = 0; i < count; i++) {
-      result.push(
-        await callback(
-          new PlaywrightSelector(this.locator.nth(i), this.config),
-          i
-        )
-      );
+      result.push(await callback(this.nth(i), i));
     }
     return result;
   }
 
   public nth(index: number): PlaywrightSelector {
-    return new PlaywrightSelector(this.locator.nth(index), this.config);
+    return new PlaywrightSelector(
+      this.locator.nth(index),
+      this.config,
+      this.childContext(`nth=${index}`)
+    );
   }
 
-  public selector(selector: string): IBaseElement {
-    return new PlaywrightSelector(this.locator.locator(selector), this.config);
+  public async handle(options?: actionOptions): Promise<IBaseElement> {
+    return await safeRun(
+      { message: `Resolving element`, ...this.actionOptions, ...options },
+      async (timeout) => {
+        //locators can't be built from a handle, the handle is registered in the page and located through its frame
+        const element = await this.locator.first().elementHandle({ timeout });
+        if (!element)
+          throw new ElementNotFoundError(
+            `No element found for selector ${this.context.selector}`
+          );
+        try {
+          const id = String(++handleIds);
+          await element.evaluate((e, id) => {
+            const page = window as any;
+            page.__scraperHandles = page.__scraperHandles ?? new Map();
+            page.__scraperHandles.set(id, new page.WeakRef(e));
+          }, id);
+          const frame = await element.ownerFrame();
+          if (!frame)
+            throw new ElementNotFoundError(
+              `Element of selector ${this.context.selector} is detached`
+            );
+          return new PlaywrightSelector(
+            frame.locator(`${HANDLE_ENGINE}=${id}`),
+            this.config,
+            this.context
+          );
+        } finally {
+          await element.dispose();
+        }
+      }
+    );
+  }
+
+  public selector(
+    selector: string,
+    forceSelectorType?: SelectorTypeOption
+  ): IBaseElement {
+    return new PlaywrightSelector(
+      this.locator.locator(toPlaywrightSelector(selector, forceSelectorType)),
+      this.config,
+      this.childContext(selector)
+    );
   }
 }
@@ -0,0 +1,16 @@
+import { errors } from "playwright";
+import {
+  ActionTimeoutError,
+  ProxyError,
+  errorClassifier,
+} from "../common/errors";
+import { isProxyFailure } from "../common/proxy";
+
+/**
+ * Maps playwright errors onto the framework error classes
+ */
+export const classifyPlaywrightError: errorClassifier = (error) => {
+  if (error instanceof errors.TimeoutError) return ActionTimeoutError;
+  if (isProxyFailure(error)) return ProxyError;
+  return undefined;
+};
@@ -1,40 +1,214 @@
-import puppeteer, { BrowserContext, Browser, Page, KeyInput } from "puppeteer";
-import { IBaseBrowser } from "../../types/interfaces/baseBrowser";
+import puppeteer, {
+  BrowserContext,
+  Browser,
+  Page,
+  KeyInput,
+  Dialog,
+  HTTPRequest,
+} from "puppeteer";
+import {
+  IBaseBrowser,
+  SelectorTypeOption,
+} from "../../types/interfaces/baseBrowser";
 import { IBaseElement } from "../../types/interfaces/baseElement";
 import { actionOptions } from "../../types/interfaces/baseActionoptions";
-import { getActionOptionsFromConfig, safeRun } from "../common/utils";
-import { baseConfig, configOverrides } from "../../types/interfaces/baseConfig";
+import {
+  actionContext,
+  getActionOptionsFromConfig,
+  runOptions,
+  safeRun,
+} from "../common/utils";
+import {
+  DialogNotPresentError,
+  NavigationError,
+  TabNotFoundError,
+} from "../common/errors";
+import { classifyPuppeteerError } from "./puppeteer.errors";
+import { toPuppeteerSelector } from "../common/selectors";
+import { baseConfig } from "../../types/interfaces/baseConfig";
+import { loadConfig } from "../common/configLoader";
+import { extractSchema } from "../common/extract";
+import { navigate } from "../common/navigation";
+import { robotsRequest } from "../common/robots";
+import { cannedBody, resolveInterception } from "../common/interception";
+import { interceptRule } from "../../types/interfaces/baseInterception";
+import { har } from "../../types/interfaces/baseHar";
+import { flushDatasets } from "../common/dataset";
+import {
+  nextProxy,
+  opensProxyContext,
+  trackProxyHealth,
+} from "../common/proxy";
+import { proxySettings } from "../../types/interfaces/baseProxy";
+import {
+  collectStorage,
+  liveCookies,
+  readSession,
+  seedStorage,
+  writeSession,
+} from "../common/session";
+import {
+  sessionCookie,
+  sessionState,
+} from "../../types/interfaces/baseSession";
+import {
+  createHarState,
+  findHarEntry,
+  harState,
+  replayedResponse,
+} from "../common/har";
+import { ResponseListeners } from "../common/responses";
+import {
+  capturedResponse,
+  responseCapture,
+  responseMatcher,
+} from "../../types/interfaces/baseResponses";
+import { scrollUntilExhausted } from "../common/harvest";
+import { harvestOptions } from "../../types/interfaces/baseHarvest";
+import {
+  extractionResult,
+  extractionSchema,
+} from "../../types/interfaces/baseSchema";
 import { PuppeteerSelector } from "./puppeteer.elements";
 
+//proxy of every context opened with one, marked unhealthy when a navigation through it fails
+const contextProxies = new WeakMap<BrowserContext, proxySettings>();
+//contexts opened besides the one of the browser, for a worker or a rotated proxy, closed with their last page
+const secondaryContexts = new WeakSet<BrowserContext>();
+//restored session of every context started from one
+const contextSessions = new WeakMap<BrowserContext, sessionState>();
+//cookies are restored once per context, by its first page
+const pendingCookies = new WeakMap<BrowserContext, sessionCookie[]>();
+
+const openContext = async (
+  browser: Browser,
+  config: Readonly<baseConfig>,
+  primary: boolean
+): Promise<BrowserContext> => {
+  const proxy = nextProxy(config);
+  const context = await browser.createIncognitoBrowserContext({
+    proxyServer: proxy?.server,
+    proxyBypassList: proxy?.bypass,
+  });
+  if (proxy) contextProxies.set(context, proxy);
+  if (!primary) secondaryContexts.add(context);
+  if (config.restoreSession) {
+    const session = readSession(config.restoreSession);
+    contextSessions.set(context, session);
+    pendingCookies.set(context, liveCookies(session));
+  }
+  return context;
+};
+
+//chromium takes the proxy credentials per page
+const openPage = async (context: BrowserContext): Promise<Page> => {
+  const page = await context.newPage();
+  const proxy = contextProxies.get(context);
+  if (proxy?.username)
+    await page.authenticate({
+      username: proxy.username,
+      password: proxy.password ?? "",
+    });
+  const session = contextSessions.get(context);
+  if (session) await page.evaluateOnNewDocument(seedStorage, session.origins);
+  const cookies = pendingCookies.get(context);
+  if (cookies) {
+    pendingCookies.delete(context);
+    await page.setCookie(
+      ...cookies.map(({ expires, ...cookie }) =>
+        expires === -1 ? cookie : { ...cookie, expires }
+      )
+    );
+  }
+  return page;
+};
+
+const readCookies = async (page: Page): Promise<sessionCookie[]> => {
+  const client = await page.target().createCDPSession();
+  try {
+    const { cookies } = await client.send("Network.getAllCookies");
+    return cookies.map((cookie) => ({
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain,
+      path: cookie.path,
+      expires: cookie.session ? -1 : cookie.expires,
+      httpOnly: cookie.httpOnly,
+      secure: cookie.secure,
+      sameSite: cookie.sameSite ?? "Lax",
+    }));
+  } finally {
+    await client.detach();
+  }
+};
+
 export class PuppeteerBrowser implements IBaseBrowser {
-  private config: baseConfig;
-  private actionOptions: actionOptions;
+  private config: Readonly<baseConfig>;
   private tabs: Page[] = [];
   private currentTab: number = 0;
+  private interceptRules: interceptRule[] = [];
+  private requestHandlers = new Map<Page, (request: HTTPRequest) => void>();
+  private responses = new ResponseListeners();
 
   private constructor(
     private context: BrowserContext,
     private page: Page,
     private browser: Browser,
-    config: baseConfig
+    config: Readonly<baseConfig>,
+    //the recorded and replayed HAR are shared with the workers
+    private har: harState,
+    //workers share the browser of the instance that opened them
+    private isWorker: boolean = false
   ) {
     this.browser = browser;
     this.context = context;
     this.page = page;
     this.tabs.push(this.page);
     this.config = config;
-    this.actionOptions = getActionOptionsFromConfig(this.config);
+    this.har = har;
+    this.listenToResponses(this.page);
+    this.recordPage(this.page);
+  }
+
+  private get actionContext(): actionContext {
+    const page = this.page;
+    return {
+      backend: "puppeteer",
+      tab: this.currentTab,
+      currentUrl: async () => page.url(),
+      classifyError: classifyPuppeteerError,
+    };
+  }
+
+  //robots.txt is requested through the proxy of the current page and recorded with its traffic
+  private get robotsRequest(): robotsRequest {
+    return {
+      proxy: contextProxies.get(this.page.browserContext()),
+      recorder: this.har.recorder,
+    };
+  }
+
+  private get actionOptions(): runOptions {
+    return getActionOptionsFromConfig(this.config, this.actionContext);
   }
 
-  public static async init(): Promise<IBaseBrowser> {
-    const config = configOverrides();
+  public static async init(overrides?: baseConfig): Promise<IBaseBrowser> {
+    const config = loadConfig(overrides);
     const browser = await puppeteer.launch({
       headless: config.headless,
       timeout: config.actionTimeout,
     });
-    const context = await browser.createIncognitoBrowserContext();
-    const page = await context.newPage();
-    return new PuppeteerBrowser(context, page, browser, config);
+    const context = await openContext(browser, config, true);
+    const page = await openPage(context);
+    const instance = new PuppeteerBrowser(
+      context,
+      page,
+      browser,
+      config,
+      createHarState(config)
+    );
+    await instance.routePage(page);
+    return instance;
   }
 
   public async $eval<T>(
@@ -50,33 +224,70 @@ export class PuppeteerBrowser implements IBaseBrowser {
     );
   }
 
-  public selector(selector: string): IBaseElement {
-    return new PuppeteerSelector(
-      this.page.locator(selector),
-      this.config,
-      this.page.$(selector) as any,
-      this.page,
-      selector
-    ) as any as IBaseElement;
+  public async extract<const S extends extractionSchema>(
+    schema: S,
+    options?: actionOptions
+  ): Promise<extractionResult<S>> {
+    return await safeRun(
+      {
+        message: "Extracting schema",
+        ...this.actionOptions,
+        //the timeout applies to every read rather than the whole extraction
+        timeout: 0,
+        ...options,
+      },
+      async () =>
+        await extractSchema(
+          this,
+          schema,
+          options?.timeout ?? this.actionOptions.timeout
+        )
+    );
   }
 
-  public async navigateTo(url: string, options?: actionOptions): Promise<void> {
+  public selector(
+    selector: string,
+    forceSelectorType?: SelectorTypeOption
+  ): IBaseElement {
+    const page = this.page;
+    const query = toPuppeteerSelector(selector, forceSelectorType);
+    return new PuppeteerSelector(page, this.config, () => page.$$(query), {
+      ...this.actionContext,
+      selector,
+    });
+  }
+
+  public async navigateTo(
+    url: string,
+    options?: actionOptions
+  ): Promise<boolean> {
+    //the safeRun timeout would count the delays of the crawling rules, the engine bounds the load instead
+    const timeout = options?.timeout ?? this.actionOptions.timeout;
     return await safeRun(
       {
-        message: "Navigating to ${url}",
+        message: `Navigating to ${url}`,
+        errorClass: NavigationError,
         ...this.actionOptions,
         ...options,
+        timeout: 0,
       },
-      async () => {
-        await this.page.goto(url);
-      }
+      async () =>
+        await navigate(
+          url,
+          this.config,
+          timeout,
+          async () => {
+            await this.goto(url, timeout);
+          },
+          this.robotsRequest
+        )
     );
   }
 
   public async getUrl(options?: actionOptions): Promise<string> {
     return await safeRun(
       {
-        message: "Getting url",
+        message: "Getting URL",
         ...this.actionOptions,
         ...options,
       },
@@ -97,13 +308,220 @@ export class PuppeteerBrowser implements IBaseBrowser {
       },
       async () => {
         if (tabNumber < 0 || tabNumber > this.tabs.length - 1)
-          throw new Error(`Tab ${tabNumber} does not exist`);
+          throw new TabNotFoundError(`Tab ${tabNumber} does not exist`);
         this.currentTab = tabNumber;
         this.page = this.tabs[this.currentTab];
       }
     );
   }
 
+  public async openWorker(options?: actionOptions): Promise<IBaseBrowser> {
+    return await safeRun(
+      { message: "Opening worker", ...this.actionOptions, ...options },
+      async () => {
+        //a context of its own keeps the cookies and storage of the worker apart, with the next proxy of the rotation
+        const context = await openContext(this.browser, this.config, false);
+        const page = await openPage(context);
+        const worker = new PuppeteerBrowser(
+          context,
+          page,
+          this.browser,
+          this.config,
+          this.har,
+          true
+        );
+        await worker.routePage(page);
+        return worker;
+      }
+    );
+  }
+
+  private async handleRequest(request: HTTPRequest) {
+    if (request.isInterceptResolutionHandled()) return;
+    const decision = resolveInterception(this.interceptRules, {
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      headers: request.headers(),
+    });
+    try {
+      if (decision.action === "block") await request.abort("blockedbyclient");
+      else if (decision.action === "fulfill")
+        await request.respond({
+          ...cannedBody(decision.response),
+          headers: decision.response.headers,
+        });
+      else if (this.har.replay) await this.replayRequest(request);
+      else await request.continue({ headers: decision.headers });
+    } catch {
+      //the page was closed while the request was pending
+    }
+  }
+
+  private async goto(url: string, timeout?: number) {
+    const page = this.page;
+    await trackProxyHealth(contextProxies.get(page.browserContext()), () =>
+      page.goto(url, { timeout })
+    );
+  }
+
+  private async closePage(page: Page) {
+    await page.close();
+    const context = page.browserContext();
+    if (secondaryContexts.has(context) && !(await context.pages()).length)
+      await context.close();
+  }
+
+  private async replayRequest(request: HTTPRequest) {
+    const entry = findHarEntry(this.har.replay as har, {
+      url: request.url(),
+      method: request.method(),
+      postData: request.postData(),
+    });
+    if (entry) await request.respond(replayedResponse(entry));
+    else await request.abort("internetdisconnected");
+  }
+
+  private recordPage(page: Page) {
+    const recorder = this.har.recorder;
+    if (!recorder) return;
+    const started = new WeakMap<HTTPRequest, number>();
+    page.on("request", (request) => started.set(request, Date.now()));
+    page.on("requestfinished", (request) => {
+      const response = request.response();
+      if (!response) return;
+      const exchange = {
+        started: started.get(request) ?? Date.now(),
+        finished: Date.now(),
+        request: {
+          url: request.url(),
+          method: request.method(),
+          headers: request.headers(),
+          postData: request.postData(),
+        },
+      };
+      recorder.record(
+        response
+          .buffer()
+          .catch(() => undefined)
+          .then((body) => ({
+            ...exchange,
+            response: {
+              status: response.status(),
+              statusText: response.statusText(),
+              headers: response.headers(),
+              body,
+            },
+          }))
+      );
+    });
+  }
+
+  private async routePage(page: Page) {
+    const routed =
+      this.interceptRules.length > 0 || this.har.replay !== undefined;
+    if (!routed || this.requestHandlers.has(page)) return;
+    const handler = (request: HTTPRequest) => void this.handleRequest(request);
+    this.requestHandlers.set(page, handler);
+    await page.setRequestInterception(true);
+    page.on("request", handler);
+  }
+
+  public async intercept(
+    rule: interceptRule,
+    options?: actionOptions
+  ): Promise<void> {
+    return await safeRun(
+      {
+        message: `Adding ${rule.action} interception`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        this.interceptRules.push(rule);
+        await Promise.all(this.tabs.map((tab) => this.routePage(tab)));
+      }
+    );
+  }
+
+  public async clearInterceptions(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      { message: "Clearing interceptions", ...this.actionOptions, ...options },
+      async () => {
+        this.interceptRules = [];
+        //requests keep being served from the replayed HAR
+        if (this.har.replay) return;
+        for (const [page, handler] of this.requestHandlers) {
+          page.off("request", handler);
+          if (!page.isClosed()) await page.setRequestInterception(false);
+        }
+        this.requestHandlers.clear();
+      }
+    );
+  }
+
+  private listenToResponses(page: Page) {
+    page.on("response", (response) =>
+      this.responses.emit({
+        url: response.url(),
+        method: response.request().method(),
+        status: response.status(),
+        headers: response.headers(),
+        text: () => response.text(),
+      })
+    );
+  }
+
+  public async captureResponses(
+    matcher: responseMatcher,
+    options?: actionOptions
+  ): Promise<responseCapture> {
+    return await safeRun(
+      { message: "Capturing responses", ...this.actionOptions, ...options },
+      async () => this.responses.capture(matcher)
+    );
+  }
+
+  public async awaitResponse(
+    matcher: responseMatcher,
+    trigger?: () => Promise<unknown>,
+    options?: actionOptions
+  ): Promise<capturedResponse> {
+    return await safeRun(
+      { message: "Waiting for response", ...this.actionOptions, ...options },
+      async (timeout) => await this.responses.next(matcher, trigger, timeout)
+    );
+  }
+
+  public async saveSession(
+    path: string,
+    options?: actionOptions
+  ): Promise<void> {
+    return await safeRun(
+      {
+        message: `Saving session to ${path}`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        //cookies are read through one tab of every context, tabs opened for a rotated proxy have their own
+        const contextTabs = new Map<BrowserContext, Page>();
+        for (const tab of this.tabs)
+          if (!contextTabs.has(tab.browserContext()))
+            contextTabs.set(tab.browserContext(), tab);
+        const cookies = await Promise.all(
+          Array.from(contextTabs.values(), readCookies)
+        );
+        const origins = await Promise.all(
+          this.tabs.map((tab) =>
+            tab.evaluate(collectStorage).catch(() => undefined)
+          )
+        );
+        writeSession(path, cookies.flat(), origins);
+      }
+    );
+  }
+
   public async closeBrowser(options?: actionOptions): Promise<void> {
     return await safeRun(
       {
@@ -112,46 +530,100 @@ export class PuppeteerBrowser implements IBaseBrowser {
         ...options,
       },
       async () => {
-        await this.browser.close();
+        if (this.isWorker) {
+          for (const tab of this.tabs) await this.closePage(tab);
+          this.tabs = [];
+          return;
+        }
+        await this.shutdown();
       }
     );
   }
+
+  /**
+   * Closes the browser once its last tab or the browser itself is closed, the buffered records
+   * of the datasets are written first
+   */
+  private async shutdown() {
+    flushDatasets();
+    //response bodies can't be read once the browser is closed
+    await this.har.recorder?.save();
+    await this.context.close();
+    await this.browser.close();
+  }
+
   public async navigateBack(options?: actionOptions): Promise<void> {
     return await safeRun(
-      { message: "Navigating back", ...this.actionOptions, ...options },
-      async () => {
-        await this.page.goBack();
+      {
+        message: "Navigating back",
+        errorClass: NavigationError,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        await this.page.goBack({ timeout });
       }
     );
   }
   public async navigateForward(options?: actionOptions): Promise<void> {
     return await safeRun(
-      { message: "Navigating forward", ...this.actionOptions, ...options },
-      async () => {
-        await this.page.goForward();
+      {
+        message: "Navigating forward",
+        errorClass: NavigationError,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        await this.page.goForward({ timeout });
       }
     );
   }
 
   public async refresh(options?: actionOptions): Promise<void> {
     return await safeRun(
-      { message: "Refreshing page", ...this.actionOptions, ...options },
-      async () => {
-        await this.page.reload();
+      {
+        message: "Refreshing page",
+        errorClass: NavigationError,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        await this.page.reload({ timeout });
       }
     );
   }
 
   public async openTab(url?: string, options?: actionOptions): Promise<void> {
+    //like navigateTo, the delays of the crawling rules are not counted, the engine bounds the load instead
+    const timeout = options?.timeout ?? this.actionOptions.timeout;
     return await safeRun(
-      { message: "Opening new tab", ...this.actionOptions, ...options },
+      {
+        message: "Opening new tab",
+        ...this.actionOptions,
+        ...options,
+        timeout: url ? 0 : timeout,
+      },
       async () => {
-        const newPage = await this.context.newPage();
+        const context = opensProxyContext(this.config)
+          ? await openContext(this.browser, this.config, false)
+          : this.context;
+        const newPage = await openPage(context);
+        await this.routePage(newPage);
+        this.listenToResponses(newPage);
+        this.recordPage(newPage);
         this.tabs.push(newPage);
         this.currentTab = this.tabs.length - 1;
-        if (url) {
-          await this.navigateTo(url);
-        }
+        this.page = newPage;
+        if (url)
+          await navigate(
+            url,
+            this.config,
+            timeout,
+            async () => {
+              await this.goto(url, timeout);
+            },
+            this.robotsRequest
+          );
       }
     );
   }
@@ -160,21 +632,15 @@ export class PuppeteerBrowser implements IBaseBrowser {
     return await safeRun(
       { message: "Closing tab", ...this.actionOptions, ...options },
       async () => {
-        await this.tabs[this.currentTab].close();
+        await this.closePage(this.page);
+        //remove the closed tab from the tabs array
         this.tabs.splice(this.currentTab, 1);
+        if (this.tabs.length === 0) {
+          if (!this.isWorker) await this.shutdown();
+          return;
+        }
         this.currentTab = this.tabs.length - 1;
-      }
-    );
-  }
-
-  public async switchTab(
-    tabNumber: number,
-    options?: actionOptions
-  ): Promise<void> {
-    return await safeRun(
-      { message: "Switching tab", ...this.actionOptions, ...options },
-      async () => {
-        this.currentTab = tabNumber;
+        this.page = this.tabs[this.currentTab];
       }
     );
   }
@@ -297,26 +763,36 @@ export class PuppeteerBrowser implements IBaseBrowser {
           }
         );
       },
+      untilExhausted: (options: harvestOptions): AsyncGenerator<IBaseElement> =>
+        scrollUntilExhausted(this, options),
     };
   }
-  public async waitForEvent(eventName: string, seconds?: number) {
-    seconds = seconds || 30;
-
-    // use race to implement a timeout
-    return Promise.race([
-      // add event listener and wait for event to fire before returning
-      this.page.evaluate(function (eventName) {
-        return new Promise(function (resolve, reject) {
-          document.addEventListener(eventName, function (e) {
-            resolve(true); // resolves when the event fires
-          });
-        });
-      }, eventName),
-
-      // if the event does not fire within n seconds, exit
-      this.page.waitForTimeout(seconds * 1000),
-    ]);
+  /**
+   * Resolves with the next dialog opened by the current page, like playwright's waitForEvent("dialog")
+   */
+  private waitForDialog(timeout?: number): Promise<Dialog> {
+    const page = this.page;
+    const waitTimeout = timeout ?? this.actionOptions.timeout;
+    return new Promise((resolve, reject) => {
+      const onDialog = (dialog: Dialog) => {
+        clearTimeout(timer);
+        resolve(dialog);
+      };
+      //a timeout of 0 waits until a dialog shows up
+      const timer =
+        waitTimeout &&
+        setTimeout(() => {
+          page.off("dialog", onDialog);
+          reject(
+            new DialogNotPresentError(
+              `No dialog appeared within ${waitTimeout}ms`
+            )
+          );
+        }, waitTimeout);
+      page.once("dialog", onDialog);
+    });
   }
+
   public get alert() {
     return {
       accept: async (options?: actionOptions): Promise<void> => {
@@ -326,9 +802,9 @@ export class PuppeteerBrowser implements IBaseBrowser {
             ...this.actionOptions,
             ...options,
           },
-          async () => {
-            const alert = await this.waitForEvent("dialog");
-            await (alert as any).accept();
+          async (timeout) => {
+            const alert = await this.waitForDialog(timeout);
+            await alert.accept();
           }
         );
       },
@@ -339,9 +815,9 @@ export class PuppeteerBrowser implements IBaseBrowser {
             ...this.actionOptions,
             ...options,
           },
-          async () => {
-            const alert = await this.waitForEvent("dialog");
-            await (alert as any).dismiss();
+          async (timeout) => {
+            const alert = await this.waitForDialog(timeout);
+            await alert.dismiss();
           }
         );
       },
@@ -352,9 +828,9 @@ export class PuppeteerBrowser implements IBaseBrowser {
             ...this.actionOptions,
             ...options,
           },
-          async () => {
-            const alert = await this.waitForEvent("dialog");
-            return (alert as any).message();
+          async (timeout) => {
+            const alert = await this.waitForDialog(timeout);
+            return alert.message();
           }
         );
       },
@@ -368,9 +844,9 @@ export class PuppeteerBrowser implements IBaseBrowser {
             ...this.actionOptions,
             ...options,
           },
-          async () => {
-            const alert = await this.waitForEvent("dialog");
-            await (alert as any).accept(keys);
+          async (timeout) => {
+            const alert = await this.waitForDialog(timeout);
+            await alert.accept(keys);
           }
         );
       },
@@ -386,8 +862,11 @@ export class PuppeteerBrowser implements IBaseBrowser {
             ...this.actionOptions,
             ...options,
           },
-          async () => {
-            await this.page.waitForNavigation();
+          async (timeout) => {
+            await this.page.waitForFunction(
+              () => document.readyState === "complete",
+              { timeout }
+            );
           }
         );
       },
@@ -399,6 +878,8 @@ export class PuppeteerBrowser implements IBaseBrowser {
           {
             message: `Waiting for ${timeout}ms`,
             ...this.actionOptions,
+            //the wait itself is not bounded by the action timeout
+            timeout: 0,
             ...options,
           },
           async () => {
@@ -1,32 +1,133 @@
 import { actionOptions } from "../../types/interfaces/baseActionoptions";
 import { baseConfig } from "../../types/interfaces/baseConfig";
 import { IBaseElement } from "../../types/interfaces/baseElement";
-import { Locator, ElementHandle, Page } from "puppeteer";
-import { getActionOptionsFromConfig, safeRun } from "../common/utils";
+import { SelectorTypeOption } from "../../types/interfaces/baseBrowser";
+import { ElementHandle, Page } from "puppeteer";
+import {
+  actionContext,
+  getActionOptionsFromConfig,
+  runOptions,
+  safeRun,
+} from "../common/utils";
+import { extractSchema } from "../common/extract";
+import { extractTable } from "../common/table";
+import {
+  extractionResult,
+  extractionSchema,
+} from "../../types/interfaces/baseSchema";
+import {
+  tableFormat,
+  tableOptions,
+  tableResult,
+} from "../../types/interfaces/baseTable";
+import {
+  toPuppeteerSelector,
+  uniqueInDocumentOrder,
+} from "../common/selectors";
+import { ElementNotFoundError } from "../common/errors";
+
+/**
+ * Resolves every element currently matched by a selector chain, the caller owns the returned handles
+ */
+type ElementsQuery = () => Promise<ElementHandle<Element>[]>;
+
+const disposeAll = async (
+  elements: ElementHandle<Element>[]
+): Promise<void> => {
+  await Promise.all(elements.map((element) => element.dispose()));
+};
+
+/**
+ * Drops the handles of elements matched through several parents and sorts the rest in document order
+ */
+const distinctElements = async (
+  page: Page,
+  elements: ElementHandle<Element>[]
+): Promise<ElementHandle<Element>[]> => {
+  const kept = (await page.evaluate(uniqueInDocumentOrder, ...elements)).map(
+    (index) => elements[index]
+  );
+  await disposeAll(elements.filter((element) => !kept.includes(element)));
+  return kept;
+};
 
 export class PuppeteerSelector implements IBaseElement {
-  private actionOptions: actionOptions;
+  private actionOptions: runOptions;
   constructor(
-    private locator: Locator<any>,
-    private config: baseConfig,
-    private elementHandle:
-      | Promise<ElementHandle<Element>>
-      | ElementHandle<Element>,
     private page: Page,
-    private selectorString: string
+    private config: Readonly<baseConfig>,
+    private query: ElementsQuery,
+    private context: actionContext
   ) {
-    this.actionOptions = getActionOptionsFromConfig(this.config);
-    this.locator = locator;
-    this.elementHandle = elementHandle;
+    this.actionOptions = getActionOptionsFromConfig(this.config, this.context);
     this.page = page;
-    this.selectorString = selectorString;
+    this.query = query;
+    this.context = context;
+  }
+
+  private childContext(selector: string): actionContext {
+    return {
+      ...this.context,
+      selector: `${this.context.selector} >> ${selector}`,
+    };
+  }
+
+  /**
+   * Waits until the selector matches at least one element and returns the first one,
+   * mirroring the auto-waiting of playwright locators
+   */
+  private async element(timeout?: number): Promise<ElementHandle<Element>> {
+    //a timeout of 0 waits until the element shows up
+    const waitTimeout = timeout ?? this.actionOptions.timeout;
+    const deadline = waitTimeout ? Date.now() + waitTimeout : Infinity;
+    for (;;) {
+      const [element, ...others] = await this.query();
+      await disposeAll(others);
+      if (element) return element;
+      if (Date.now() >= deadline)
+        throw new ElementNotFoundError(
+          `No element found for selector ${this.context.selector}`
+        );
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+
+  /**
+   * Runs an action on the first matching element and releases its handle afterwards
+   */
+  private async withElement<T>(
+    timeout: number | undefined,
+    action: (element: ElementHandle<Element>) => Promise<T>
+  ): Promise<T> {
+    const element = await this.element(timeout);
+    try {
+      return await action(element);
+    } finally {
+      await element.dispose();
+    }
+  }
+
+  /**
+   * A selector bound to an element resolved by an iteration, so callbacks don't query the whole list again
+   */
+  private resolved(
+    element: ElementHandle<Element>,
+    index: number
+  ): PuppeteerSelector {
+    return new PuppeteerSelector(
+      this.page,
+      this.config,
+      //every query hands out its own handle, the iteration keeps the original
+      async () => [await element.evaluateHandle((e) => e)],
+      this.childContext(`nth=${index}`)
+    );
   }
 
   public async click(options?: actionOptions): Promise<void> {
     return await safeRun(
       { message: `Clicking on element`, ...this.actionOptions, ...options },
-      async () => {
-        await this.locator.click();
+      async (timeout) => {
+        await this.withElement(timeout, (element) => element.click());
       }
     );
   }
@@ -38,8 +139,13 @@ export class PuppeteerSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await this.locator.fill(text);
+      async (timeout) => {
+        await this.withElement(timeout, async (element) => {
+          await element.evaluate((e: any) => {
+            e.value = "";
+          });
+          await element.type(text);
+        });
       }
     );
   }
@@ -47,8 +153,14 @@ export class PuppeteerSelector implements IBaseElement {
   public async clear(options?: actionOptions): Promise<void> {
     return await safeRun(
       { message: `Clearing element`, ...this.actionOptions, ...options },
-      async () => {
-        await this.locator.fill("");
+      async (timeout) => {
+        await this.withElement(timeout, (element) =>
+          element.evaluate((e: any) => {
+            e.value = "";
+            e.dispatchEvent(new Event("input", { bubbles: true }));
+            e.dispatchEvent(new Event("change", { bubbles: true }));
+          })
+        );
       }
     );
   }
@@ -60,10 +172,10 @@ export class PuppeteerSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return (
-          await (await this.elementHandle).getProperty("innerText")
-        ).toString();
+      async (timeout) => {
+        return await this.withElement(timeout, (element) =>
+          element.evaluate((e) => (e as HTMLElement).innerText)
+        );
       }
     );
   }
@@ -75,8 +187,10 @@ export class PuppeteerSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await (await this.elementHandle).click({ button: "right" });
+      async (timeout) => {
+        await this.withElement(timeout, (element) =>
+          element.click({ button: "right" })
+        );
       }
     );
   }
@@ -88,21 +202,40 @@ export class PuppeteerSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await this.locator.click({ clickCount: 2 });
-        //await this.elementHandle.click({clickCount: 2});
+      async (timeout) => {
+        await this.withElement(timeout, (element) =>
+          element.click({ clickCount: 2 })
+        );
       }
     );
   }
 
-  public async selectOption(options: string | number): Promise<void> {
+  public async selectOption(
+    option: string | number,
+    options?: actionOptions
+  ): Promise<void> {
     return await safeRun(
       {
-        message: `Selecting option ${options} from element`,
+        message: `Selecting option ${option}`,
         ...this.actionOptions,
+        ...options,
       },
-      async () => {
-        await this.locator.click();
+      async (timeout) => {
+        // match on value or label like playwright's locator.selectOption
+        const selected = await this.withElement(timeout, (element) =>
+          element.evaluate((select: any, option: string) => {
+            const match = Array.from(select.options as any[]).find(
+              (o: any) => o.value === option || o.label === option
+            );
+            if (!match) return false;
+            match.selected = true;
+            select.dispatchEvent(new Event("input", { bubbles: true }));
+            select.dispatchEvent(new Event("change", { bubbles: true }));
+            return true;
+          }, option.toString())
+        );
+        if (!selected)
+          throw new ElementNotFoundError(`Option ${option} does not exist`);
       }
     );
   }
@@ -114,10 +247,10 @@ export class PuppeteerSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return (
-          await (await this.elementHandle).getProperty("value")
-        ).toString();
+      async (timeout) => {
+        return await this.withElement(timeout, (element) =>
+          element.evaluate((e: any) => e.value as string)
+        );
       }
     );
   }
@@ -129,10 +262,10 @@ export class PuppeteerSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return await this.page.$eval("button", (button) => {
-          return button.disabled;
-        });
+      async (timeout) => {
+        return await this.withElement(timeout, (element) =>
+          element.evaluate((e: any) => !e.disabled)
+        );
       }
     );
   }
@@ -145,7 +278,15 @@ export class PuppeteerSelector implements IBaseElement {
         ...options,
       },
       async () => {
-        return !!(await (await this.elementHandle).boundingBox());
+        // like playwright, visibility is checked immediately without waiting
+        const [element, ...others] = await this.query();
+        await disposeAll(others);
+        if (!element) return false;
+        try {
+          return await element.isVisible();
+        } finally {
+          await element.dispose();
+        }
       }
     );
   }
@@ -157,10 +298,10 @@ export class PuppeteerSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return !!(
-          await (await this.elementHandle).getProperty("checked")
-        ).jsonValue();
+      async (timeout) => {
+        return await this.withElement(timeout, (element) =>
+          element.evaluate((e: any) => !!e.checked)
+        );
       }
     );
   }
@@ -175,8 +316,10 @@ export class PuppeteerSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return (await (await this.elementHandle).getProperty(name)).toString();
+      async (timeout) => {
+        return await this.withElement(timeout, (element) =>
+          element.evaluate((e, name) => e.getAttribute(name), name)
+        );
       }
     );
   }
@@ -191,14 +334,35 @@ export class PuppeteerSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return await this.page.$eval(
-          this.selectorString,
-          (el, property) => {
-            return window.getComputedStyle(el).getPropertyValue(property);
-          },
-          property
+      async (timeout) => {
+        return await this.withElement(timeout, (element) =>
+          element.evaluate(
+            (e, property) =>
+              window.getComputedStyle(e).getPropertyValue(property),
+            property
+          )
+        );
+      }
+    );
+  }
+
+  public async getLocation(
+    options?: actionOptions
+  ): Promise<{ x: number; y: number }> {
+    return await safeRun(
+      {
+        message: `Getting location from element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        const boundingBox = await this.withElement(timeout, (element) =>
+          element.boundingBox()
         );
+        if (!boundingBox) {
+          throw new Error(`Element is not visible`);
+        }
+        return { x: boundingBox.x, y: boundingBox.y };
       }
     );
   }
@@ -210,10 +374,27 @@ export class PuppeteerSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return (
-          await (await this.elementHandle).getProperty("tagName")
-        ).toString();
+      async (timeout) => {
+        return await this.withElement(timeout, (element) =>
+          element.evaluate((e) => e.tagName.toLowerCase())
+        );
+      }
+    );
+  }
+
+  public async submit(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      {
+        message: `Submitting element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        await this.withElement(timeout, (element) =>
+          element.evaluate((e: any) => {
+            e.submit();
+          })
+        );
       }
     );
   }
@@ -221,41 +402,66 @@ export class PuppeteerSelector implements IBaseElement {
   public async hover(options?: actionOptions): Promise<void> {
     return await safeRun(
       {
-        message: `Hovering over element`,
+        message: `Hovering element`,
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await (await this.elementHandle).hover();
+      async (timeout) => {
+        await this.withElement(timeout, (element) => element.hover());
       }
     );
   }
 
-  public async takeScreenshot(
-    filePath: string,
+  public async dragAndDrop(
+    target: PuppeteerSelector,
     options?: actionOptions
   ): Promise<void> {
     return await safeRun(
       {
-        message: `Taking screenshot of element`,
+        message: `Dragging and dropping element`,
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await (await this.elementHandle).screenshot({ path: filePath });
+      async (timeout) => {
+        const source = await this.withElement(timeout, (element) =>
+          element.boundingBox()
+        );
+        const destination = await target.withElement(timeout, (element) =>
+          element.boundingBox()
+        );
+        if (!source || !destination) {
+          throw new Error(`Element is not visible`);
+        }
+        await this.page.mouse.move(
+          source.x + source.width / 2,
+          source.y + source.height / 2
+        );
+        await this.page.mouse.down();
+        await this.page.mouse.move(
+          destination.x + destination.width / 2,
+          destination.y + destination.height / 2
+        );
+        await this.page.mouse.up();
       }
     );
   }
 
-  public async count(options?: actionOptions): Promise<number> {
+  public async takeScreenshot(
+    filePath: string,
+    options?: actionOptions
+  ): Promise<void> {
     return await safeRun(
       {
-        message: `Counting elements`,
+        message: `Taking screenshot of element`,
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        return (await this.page.$$(this.selectorString)).length;
+      async (timeout) => {
+        await this.withElement(timeout, (element) =>
+          element.screenshot({
+            path: filePath,
+          })
+        );
       }
     );
   }
@@ -267,138 +473,176 @@ export class PuppeteerSelector implements IBaseElement {
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        await this.page.waitForSelector(this.selectorString);
+      async (timeout) => {
+        await this.withElement(timeout, async () => undefined);
       }
     );
   }
 
-  public async getHTML(options?: actionOptions): Promise<string> {
+  public async count(options?: actionOptions): Promise<number> {
     return await safeRun(
       {
-        message: `Getting HTML from element`,
+        message: `Counting elements`,
         ...this.actionOptions,
         ...options,
       },
       async () => {
-        return await this.page.$eval(this.selectorString, (el) => el.innerHTML);
+        const elements = await this.query();
+        await disposeAll(elements);
+        return elements.length;
       }
     );
   }
 
-  public async forEach(
-    callback: (element: IBaseElement, index: number) => Promise<void>,
-    options?: actionOptions
-  ): Promise<void> {
+  public async getHTML(options?: actionOptions): Promise<string> {
     return await safeRun(
       {
-        message: `Iterating over elements`,
+        message: `Getting HTML from element`,
         ...this.actionOptions,
         ...options,
       },
-      async () => {
-        const elements = await this.page.$$(this.selectorString);
-        for (let i = 0; i < elements.length; i++) {
-          const element = elements[i];
-          await callback(
-            new PuppeteerSelector(
-              this.page.$(this.selectorString) as any,
-              this.config,
-              element,
-              this.page,
-              this.selectorString
-            ) as any as IBaseElement,
-            i
-          );
-        }
+      async (timeout) => {
+        return await this.withElement(timeout, (element) =>
+          element.evaluate((e) => e.innerHTML)
+        );
       }
     );
   }
 
-  public async filter(
-    callback: (element: IBaseElement, index: number) => Promise<boolean>,
+  public async extract<const S extends extractionSchema>(
+    schema: S,
     options?: actionOptions
-  ): Promise<IBaseElement[]> {
+  ): Promise<extractionResult<S>> {
     return await safeRun(
       {
-        message: `Filtering elements`,
+        message: "Extracting schema",
         ...this.actionOptions,
+        //the timeout applies to every read rather than the whole extraction
+        timeout: 0,
         ...options,
       },
-      async () => {
-        const elements = await this.page.$$(this.selectorString);
-        const filteredElements: IBaseElement[] = [];
-        for (let i = 0; i < elements.length; i++) {
-          const element = elements[i];
-          const result = await callback(
-            new PuppeteerSelector(
-              this.page.$(this.selectorString) as any,
-              this.config,
-              element,
-              this.page,
-              this.selectorString
-            ) as any as IBaseElement,
-            i
-          );
-          if (result) filteredElements.push(element as any as IBaseElement);
+      async () =>
+        await extractSchema(
+          this,
+          schema,
+          options?.timeout ?? this.actionOptions.timeout
+        )
+    );
+  }
+
+  public async extractTable<F extends tableFormat = "matrix">(
+    options?: tableOptions<F>
+  ): Promise<tableResult<F>> {
+    return await safeRun(
+      { message: "Extracting table", ...this.actionOptions, ...options },
+      async (timeout) =>
+        await extractTable(
+          this,
+          options?.format,
+          options?.headerSeparator,
+          timeout
+        )
+    );
+  }
+
+  public async forEach(
+    callback: (element: IBaseElement, index: number) => Promise<void>
+  ): Promise<void> {
+    const elements = await this.query();
+    try {
+      for (let i = 0; i < elements.length; i++) {
+        await callback(this.resolved(elements[i], i), i);
+      }
+    } finally {
+      await disposeAll(elements);
+    }
+  }
+
+  public async filter(
+    callback: (element: IBaseElement, index: number) => Promise<boolean>
+  ): Promise<IBaseElement[]> {
+    const result: IBaseElement[] = [];
+    const elements = await this.query();
+    //the handles of the kept elements live as long as the returned selectors
+    const kept: ElementHandle<Element>[] = [];
+    try {
+      for (let i = 0; i < elements.length; i++) {
+        const element = this.resolved(elements[i], i);
+        if (await callback(element, i)) {
+          result.push(element);
+          kept.push(elements[i]);
         }
-        return filteredElements;
       }
-    );
+    } finally {
+      await disposeAll(elements.filter((element) => !kept.includes(element)));
+    }
+    return result;
   }
 
   public async map<T>(
-    callback: (element: IBaseElement, index: number) => Promise<T>,
-    options?: actionOptions
+    callback: (element: IBaseElement, index: number) => Promise<T>
   ): Promise<T[]> {
-    return await safeRun(
-      {
-        message: `Mapping elements`,
-        ...this.actionOptions,
-        ...options,
-      },
-      async () => {
-        const elements = await this.page.$$(this.selectorString);
-        const mappedElements: T[] = [];
-        for (let i = 0; i < elements.length; i++) {
-          const element = elements[i];
-          mappedElements.push(
-            await callback(
-              new PuppeteerSelector(
-                this.page.$(this.selectorString) as any,
-                this.config,
-                element,
-                this.page,
-                this.selectorString
-              ) as any as IBaseElement,
-              i
-            )
-          );
-        }
-        return mappedElements;
+    const result: T[] = [];
+    const elements = await this.query();
+    try {
+      for (let i = 0; i < elements.length; i++) {
+        result.push(await callback(this.resolved(elements[i], i), i));
       }
-    );
+    } finally {
+      await disposeAll(elements);
+    }
+    return result;
   }
 
-  public nth(index: number): IBaseElement {
+  public nth(index: number): PuppeteerSelector {
     return new PuppeteerSelector(
-      this.page.$(this.selectorString) as any,
-      this.config,
-      (this.page.$$(this.selectorString) as any)[
-        index
-      ] as any as ElementHandle<Element>,
       this.page,
-      this.selectorString
-    ) as any as IBaseElement;
+      this.config,
+      async () => {
+        const elements = await this.query();
+        await disposeAll(elements.filter((_, i) => i !== index));
+        return index < elements.length ? [elements[index]] : [];
+      },
+      this.childContext(`nth=${index}`)
+    );
   }
 
-  public selector(selector: string): IBaseElement {
+  public async handle(options?: actionOptions): Promise<IBaseElement> {
+    return await safeRun(
+      { message: `Resolving element`, ...this.actionOptions, ...options },
+      async (timeout) => {
+        //the handle lives as long as the returned selector
+        const element = await this.element(timeout);
+        return new PuppeteerSelector(
+          this.page,
+          this.config,
+          async () => [await element.evaluateHandle((e) => e)],
+          this.context
+        );
+      }
+    );
+  }
+
+  public selector(
+    selector: string,
+    forceSelectorType?: SelectorTypeOption
+  ): IBaseElement {
+    const query = toPuppeteerSelector(selector, forceSelectorType, true);
     return new PuppeteerSelector(
-      this.page.$(this.selectorString) as any,
-      this.config,
-      this.page.$(selector) as any,
       this.page,
-      selector
-    ) as any as IBaseElement;
+      this.config,
+      async () => {
+        const parents = await this.query();
+        const children = ([] as ElementHandle<Element>[]).concat(
+          ...(await Promise.all(parents.map((parent) => parent.$$(query))))
+        );
+        await disposeAll(parents);
+        //nested parents match the same children
+        return parents.length > 1
+          ? await distinctElements(this.page, children)
+          : children;
+      },
+      this.childContext(selector)
+    );
   }
 }
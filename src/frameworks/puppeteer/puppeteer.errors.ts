@@ -0,0 +1,16 @@
+import { TimeoutError } from "puppeteer";
+import {
+  ActionTimeoutError,
+  ProxyError,
+  errorClassifier,
+} from "../common/errors";
+import { isProxyFailure } from "../common/proxy";
+
+/**
+ * Maps puppeteer errors onto the framework error classes
+ */
+export const classifyPuppeteerError: errorClassifier = (error) => {
+  if (error instanceof TimeoutError) return ActionTimeoutError;
+  if (isProxyFailure(error)) return ProxyError;
+  return undefined;
+};
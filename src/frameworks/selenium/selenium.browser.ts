@@ -0,0 +1,719 @@
+import {
+  Alert,
+  Browser,
+  Builder,
+  By,
+  Key,
+  Origin,
+  WebDriver,
+  error as webdriverError,
+  until,
+} from "selenium-webdriver";
+import chrome from "selenium-webdriver/chrome";
+import firefox from "selenium-webdriver/firefox";
+import {
+  IBaseBrowser,
+  SelectorTypeOption,
+} from "../../types/interfaces/baseBrowser";
+import { IBaseElement } from "../../types/interfaces/baseElement";
+import { actionOptions } from "../../types/interfaces/baseActionoptions";
+import {
+  actionContext,
+  getActionOptionsFromConfig,
+  runOptions,
+  safeRun,
+} from "../common/utils";
+import {
+  BackendUnsupportedError,
+  DialogNotPresentError,
+  NavigationError,
+  TabNotFoundError,
+} from "../common/errors";
+import { classifySeleniumError } from "./selenium.errors";
+import { toWebdriverLocator } from "../common/selectors";
+import { baseConfig } from "../../types/interfaces/baseConfig";
+import { loadConfig } from "../common/configLoader";
+import { extractSchema } from "../common/extract";
+import { navigate } from "../common/navigation";
+import { usesProxy } from "../common/proxy";
+import { interceptRule } from "../../types/interfaces/baseInterception";
+import {
+  capturedResponse,
+  responseCapture,
+  responseMatcher,
+} from "../../types/interfaces/baseResponses";
+import { flushDatasets } from "../common/dataset";
+import { scrollUntilExhausted } from "../common/harvest";
+import { harvestOptions } from "../../types/interfaces/baseHarvest";
+import {
+  extractionResult,
+  extractionSchema,
+} from "../../types/interfaces/baseSchema";
+import { SeleniumSelector } from "./selenium.element";
+
+//every member of Key is a key code except the chord helper
+type seleniumKeyName = Exclude<keyof typeof Key, "chord">;
+
+/**
+ * Translates playwright style key names ("PageDown", "ArrowLeft", "Control+a") into webdriver keys
+ */
+const toSeleniumKeys = (key: string): string[] =>
+  key.split("+").map((part) => {
+    if (part.length === 1) return part;
+    const name = part.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase();
+    const aliases: Record<string, string> = {
+      BACKSPACE: "BACK_SPACE",
+      CONTROL_OR_META: "CONTROL",
+    };
+    const keyName = (aliases[name] ?? name) as seleniumKeyName;
+    return keyName in Key ? Key[keyName] : part;
+  });
+
+export class SeleniumBrowser implements IBaseBrowser {
+  private config: Readonly<baseConfig>;
+  private tabs: string[] = [];
+  private currentTab: number = 0;
+
+  private constructor(
+    private driver: WebDriver,
+    tab: string,
+    config: Readonly<baseConfig>
+  ) {
+    this.driver = driver;
+    this.tabs.push(tab);
+    this.config = config;
+  }
+
+  private get actionContext(): actionContext {
+    return {
+      backend: "selenium",
+      tab: this.currentTab,
+      currentUrl: () => this.driver.getCurrentUrl(),
+      classifyError: classifySeleniumError,
+    };
+  }
+
+  private get actionOptions(): runOptions {
+    return getActionOptionsFromConfig(this.config, this.actionContext);
+  }
+
+  static async init(overrides?: baseConfig): Promise<IBaseBrowser> {
+    const config = loadConfig(overrides);
+    if (config.recordHar || config.replayHar)
+      throw new BackendUnsupportedError(
+        "WebDriver does not expose network traffic, recordHar and replayHar are unsupported by selenium"
+      );
+    if (usesProxy(config))
+      throw new BackendUnsupportedError(
+        "WebDriver proxies take no credentials nor rotation, proxy and proxies are unsupported by selenium"
+      );
+    if (config.restoreSession)
+      throw new BackendUnsupportedError(
+        "WebDriver only reaches the cookies of the current page, restoreSession is unsupported by selenium"
+      );
+    const builder = new Builder();
+    switch (config.browser) {
+      case "chromium": {
+        const options = new chrome.Options();
+        if (config.headless) options.addArguments("--headless=new");
+        builder.forBrowser(Browser.CHROME).setChromeOptions(options);
+        if (config.driverPath)
+          builder.setChromeService(new chrome.ServiceBuilder(config.driverPath));
+        break;
+      }
+      case "firefox": {
+        const options = new firefox.Options();
+        if (config.headless) options.addArguments("-headless");
+        builder.forBrowser(Browser.FIREFOX).setFirefoxOptions(options);
+        if (config.driverPath)
+          builder.setFirefoxService(
+            new firefox.ServiceBuilder(config.driverPath)
+          );
+        break;
+      }
+      case "webkit":
+        builder.forBrowser(Browser.SAFARI);
+        break;
+      default:
+        throw new BackendUnsupportedError(
+          `Browser ${config.browser} is not supported for selenium`
+        );
+    }
+    if (config.webdriverUrl) builder.usingServer(config.webdriverUrl);
+    const driver = await builder.build();
+    const tab = await driver.getWindowHandle();
+    return new SeleniumBrowser(driver, tab, config);
+  }
+
+  private async waitForAlert(timeout?: number): Promise<Alert> {
+    const waitTimeout = timeout ?? this.actionOptions.timeout;
+    try {
+      return await this.driver.wait(until.alertIsPresent(), waitTimeout);
+    } catch (error) {
+      if (!(error instanceof webdriverError.TimeoutError)) throw error;
+      throw new DialogNotPresentError(
+        `No dialog appeared within ${waitTimeout}ms`,
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * WebDriver timeouts are session wide so they are set right before the calls relying on them,
+   * a timeout of 0 keeps the driver's default
+   */
+  private async setTimeout(
+    kind: "pageLoad" | "script",
+    timeout?: number
+  ): Promise<void> {
+    if (timeout) await this.driver.manage().setTimeouts({ [kind]: timeout });
+  }
+
+  private async pressKey(key: string): Promise<void> {
+    const keys = toSeleniumKeys(key);
+    const actions = this.driver.actions({ async: true });
+    keys.forEach((k) => actions.keyDown(k));
+    keys.reverse().forEach((k) => actions.keyUp(k));
+    await actions.perform();
+  }
+
+  public selector(
+    selector: string,
+    forceSelectorType?: SelectorTypeOption
+  ): IBaseElement {
+    const { using, value } = toWebdriverLocator(selector, forceSelectorType);
+    return new SeleniumSelector(
+      this.driver,
+      this.config,
+      () => this.driver.findElements(new By(using, value)),
+      { ...this.actionContext, selector }
+    );
+  }
+
+  public async navigateTo(
+    url: string,
+    options?: actionOptions
+  ): Promise<boolean> {
+    //the safeRun timeout would count the delays of the crawling rules, the engine bounds the load instead
+    const timeout = options?.timeout ?? this.actionOptions.timeout;
+    return await safeRun(
+      {
+        message: `Navigating to ${url}`,
+        errorClass: NavigationError,
+        ...this.actionOptions,
+        ...options,
+        timeout: 0,
+      },
+      async () =>
+        await navigate(url, this.config, timeout, async () => {
+          await this.setTimeout("pageLoad", timeout);
+          await this.driver.get(url);
+        })
+    );
+  }
+
+  public async getUrl(options?: actionOptions): Promise<string> {
+    return await safeRun(
+      { message: "Getting URL", ...this.actionOptions, ...options },
+      async () => {
+        return await this.driver.getCurrentUrl();
+      }
+    );
+  }
+
+  public async closeBrowser(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      { message: "Closing browser", ...this.actionOptions, ...options },
+      async () => {
+        await this.shutdown();
+      }
+    );
+  }
+
+  /**
+   * Closes the browser once its last tab or the browser itself is closed, the buffered records
+   * of the datasets are written first
+   */
+  private async shutdown() {
+    flushDatasets();
+    await this.driver.quit();
+  }
+
+  public async navigateBack(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      {
+        message: "Navigating back",
+        errorClass: NavigationError,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        await this.setTimeout("pageLoad", timeout);
+        await this.driver.navigate().back();
+      }
+    );
+  }
+
+  public async navigateForward(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      {
+        message: "Navigating forward",
+        errorClass: NavigationError,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        await this.setTimeout("pageLoad", timeout);
+        await this.driver.navigate().forward();
+      }
+    );
+  }
+
+  public async refresh(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      {
+        message: "Refreshing page",
+        errorClass: NavigationError,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        await this.setTimeout("pageLoad", timeout);
+        await this.driver.navigate().refresh();
+      }
+    );
+  }
+
+  public async openTab(url?: string, options?: actionOptions): Promise<void> {
+    //like navigateTo, the delays of the crawling rules are not counted, the engine bounds the load instead
+    const timeout = options?.timeout ?? this.actionOptions.timeout;
+    return await safeRun(
+      {
+        message: "Opening new tab",
+        ...this.actionOptions,
+        ...options,
+        timeout: url ? 0 : timeout,
+      },
+      async () => {
+        await this.driver.switchTo().newWindow("tab");
+        this.tabs.push(await this.driver.getWindowHandle());
+        this.currentTab = this.tabs.length - 1;
+        if (url)
+          await navigate(url, this.config, timeout, async () => {
+            await this.setTimeout("pageLoad", timeout);
+            await this.driver.get(url);
+          });
+      }
+    );
+  }
+
+  public async closeTab(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      { message: "Closing tab", ...this.actionOptions, ...options },
+      async () => {
+        if (this.tabs.length === 1) {
+          await this.shutdown();
+          this.tabs = [];
+          return;
+        }
+        await this.driver.close();
+        //the tab is only forgotten once the driver closed it
+        this.tabs.splice(this.currentTab, 1);
+        this.currentTab = this.tabs.length - 1;
+        await this.driver.switchTo().window(this.tabs[this.currentTab]);
+      }
+    );
+  }
+
+  public async switchToTab(
+    tabNumber: number,
+    options?: actionOptions
+  ): Promise<void> {
+    return await safeRun(
+      {
+        message: `Switching to tab ${tabNumber}`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        if (tabNumber < 0 || tabNumber > this.tabs.length - 1)
+          throw new TabNotFoundError(`Tab ${tabNumber} does not exist`);
+        this.currentTab = tabNumber;
+        await this.driver.switchTo().window(this.tabs[this.currentTab]);
+      }
+    );
+  }
+
+  public async openWorker(options?: actionOptions): Promise<IBaseBrowser> {
+    return await safeRun(
+      { message: "Opening worker", ...this.actionOptions, ...options },
+      async () => {
+        throw new BackendUnsupportedError(
+          "A WebDriver session drives a single window at a time, workers are unsupported by selenium"
+        );
+      }
+    );
+  }
+
+  public async intercept(
+    rule: interceptRule,
+    options?: actionOptions
+  ): Promise<void> {
+    return await safeRun(
+      {
+        message: `Adding ${rule.action} interception`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        throw new BackendUnsupportedError(
+          "WebDriver has no request interception, intercept is unsupported by selenium"
+        );
+      }
+    );
+  }
+
+  public async clearInterceptions(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      { message: "Clearing interceptions", ...this.actionOptions, ...options },
+      async () => {
+        throw new BackendUnsupportedError(
+          "WebDriver has no request interception, clearInterceptions is unsupported by selenium"
+        );
+      }
+    );
+  }
+
+  public async captureResponses(
+    matcher: responseMatcher,
+    options?: actionOptions
+  ): Promise<responseCapture> {
+    return await safeRun(
+      { message: "Capturing responses", ...this.actionOptions, ...options },
+      async () => {
+        throw new BackendUnsupportedError(
+          "WebDriver does not expose network responses, captureResponses is unsupported by selenium"
+        );
+      }
+    );
+  }
+
+  public async awaitResponse(
+    matcher: responseMatcher,
+    trigger?: () => Promise<unknown>,
+    options?: actionOptions
+  ): Promise<capturedResponse> {
+    return await safeRun(
+      { message: "Waiting for response", ...this.actionOptions, ...options },
+      async () => {
+        throw new BackendUnsupportedError(
+          "WebDriver does not expose network responses, awaitResponse is unsupported by selenium"
+        );
+      }
+    );
+  }
+
+  public async saveSession(
+    path: string,
+    options?: actionOptions
+  ): Promise<void> {
+    return await safeRun(
+      {
+        message: `Saving session to ${path}`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        throw new BackendUnsupportedError(
+          "WebDriver only reaches the cookies of the current page, saveSession is unsupported by selenium"
+        );
+      }
+    );
+  }
+
+  public async $eval<T>(
+    callBack: (arg: any) => T,
+    arg: any,
+    options: actionOptions
+  ): Promise<T> {
+    return await safeRun(
+      { message: "Evaluating callback", ...this.actionOptions, ...options },
+      async (timeout) => {
+        await this.setTimeout("script", timeout);
+        //rejections are passed back through done, webdriver would only report the script timeout
+        const result = await this.driver.executeAsyncScript<{
+          value?: T;
+          error?: string;
+        }>(
+          `const done = arguments[arguments.length - 1];
+          const arg = arguments[0];
+          Promise.resolve()
+            .then(() => (${callBack.toString()})(arg))
+            .then(
+              (value) => done({ value }),
+              (error) => done({ error: error instanceof Error ? error.message : String(error) })
+            );`,
+          arg
+        );
+        if (result.error !== undefined) throw new Error(result.error);
+        return result.value as T;
+      }
+    );
+  }
+
+  public async extract<const S extends extractionSchema>(
+    schema: S,
+    options?: actionOptions
+  ): Promise<extractionResult<S>> {
+    return await safeRun(
+      {
+        message: "Extracting schema",
+        ...this.actionOptions,
+        //the timeout applies to every read rather than the whole extraction
+        timeout: 0,
+        ...options,
+      },
+      async () =>
+        await extractSchema(
+          this,
+          schema,
+          options?.timeout ?? this.actionOptions.timeout
+        )
+    );
+  }
+
+  public get mouseActions() {
+    return {
+      move: async (
+        x: number,
+        y: number,
+        options?: actionOptions
+      ): Promise<void> => {
+        return await safeRun(
+          {
+            message: `Moving mouse to (${x}, ${y})`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async () => {
+            await this.driver
+              .actions({ async: true })
+              .move({ x, y, origin: Origin.VIEWPORT })
+              .perform();
+          }
+        );
+      },
+      click: async (
+        coords: { x: number; y: number },
+        options?: actionOptions
+      ): Promise<void> => {
+        await safeRun(
+          {
+            message: `Clicking mouse at (${coords.x}, ${coords.y})`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async () => {
+            await this.driver
+              .actions({ async: true })
+              .move({ ...coords, origin: Origin.VIEWPORT })
+              .click()
+              .perform();
+          }
+        );
+      },
+      doubleClick: async (
+        coords: { x: number; y: number },
+        options?: actionOptions
+      ): Promise<void> => {
+        await safeRun(
+          {
+            message: `Double clicking mouse at (${coords.x}, ${coords.y})`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async () => {
+            await this.driver
+              .actions({ async: true })
+              .move({ ...coords, origin: Origin.VIEWPORT })
+              .doubleClick()
+              .perform();
+          }
+        );
+      },
+    };
+  }
+
+  public get keyboardActions() {
+    return {
+      press: async (key: string, options?: actionOptions): Promise<void> => {
+        await safeRun(
+          {
+            message: `Pressing ${key}`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async () => {
+            await this.pressKey(key);
+          }
+        );
+      },
+    };
+  }
+
+  public get scroll() {
+    return {
+      up: async (options?: actionOptions): Promise<void> => {
+        await safeRun(
+          {
+            message: `Scrolling up`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async () => {
+            await this.pressKey("PageUp");
+          }
+        );
+      },
+      down: async (options?: actionOptions): Promise<void> => {
+        await safeRun(
+          {
+            message: `Scrolling down`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async () => {
+            await this.pressKey("PageDown");
+          }
+        );
+      },
+      left: async (options?: actionOptions): Promise<void> => {
+        await safeRun(
+          {
+            message: `Scrolling left`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async () => {
+            await this.pressKey("ArrowLeft");
+          }
+        );
+      },
+      right: async (options?: actionOptions): Promise<void> => {
+        await safeRun(
+          {
+            message: `Scrolling right`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async () => {
+            await this.pressKey("ArrowRight");
+          }
+        );
+      },
+      untilExhausted: (options: harvestOptions): AsyncGenerator<IBaseElement> =>
+        scrollUntilExhausted(this, options),
+    };
+  }
+
+  public get alert() {
+    return {
+      accept: async (options?: actionOptions): Promise<void> => {
+        await safeRun(
+          {
+            message: `Accepting alert`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async (timeout) => {
+            const alert = await this.waitForAlert(timeout);
+            await alert.accept();
+          }
+        );
+      },
+      dismiss: async (options?: actionOptions): Promise<void> => {
+        await safeRun(
+          {
+            message: `Dismissing alert`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async (timeout) => {
+            const alert = await this.waitForAlert(timeout);
+            await alert.dismiss();
+          }
+        );
+      },
+      getText: async (options?: actionOptions): Promise<string> => {
+        return await safeRun(
+          {
+            message: `Getting alert text`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async (timeout) => {
+            const alert = await this.waitForAlert(timeout);
+            return await alert.getText();
+          }
+        );
+      },
+      sendKeys: async (
+        keys: string,
+        options?: actionOptions
+      ): Promise<void> => {
+        await safeRun(
+          {
+            message: `Sending keys to alert`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async (timeout) => {
+            const alert = await this.waitForAlert(timeout);
+            await alert.sendKeys(keys);
+            await alert.accept();
+          }
+        );
+      },
+    };
+  }
+
+  public get waitFor() {
+    return {
+      pageLoad: async (options?: actionOptions): Promise<void> => {
+        await safeRun(
+          {
+            message: `Waiting for page load`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async (timeout) => {
+            await this.driver.wait(
+              async () =>
+                (await this.driver.executeScript(
+                  "return document.readyState"
+                )) === "complete",
+              timeout ?? this.actionOptions.timeout
+            );
+          }
+        );
+      },
+      timeout: async (
+        timeout: number,
+        options?: actionOptions
+      ): Promise<void> => {
+        await safeRun(
+          {
+            message: `Waiting for ${timeout}ms`,
+            ...this.actionOptions,
+            //the wait itself is not bounded by the action timeout
+            timeout: 0,
+            ...options,
+          },
+          async () => {
+            await this.driver.sleep(timeout);
+          }
+        );
+      },
+    };
+  }
+}
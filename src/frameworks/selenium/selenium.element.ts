@@ -0,0 +1,548 @@
+import { writeFile } from "fs/promises";
+import { By, WebDriver, WebElement } from "selenium-webdriver";
+import { actionOptions } from "../../types/interfaces/baseActionoptions";
+import { baseConfig } from "../../types/interfaces/baseConfig";
+import { IBaseElement } from "../../types/interfaces/baseElement";
+import { SelectorTypeOption } from "../../types/interfaces/baseBrowser";
+import {
+  actionContext,
+  getActionOptionsFromConfig,
+  runOptions,
+  safeRun,
+} from "../common/utils";
+import { extractSchema } from "../common/extract";
+import { extractTable } from "../common/table";
+import {
+  extractionResult,
+  extractionSchema,
+} from "../../types/interfaces/baseSchema";
+import {
+  tableFormat,
+  tableOptions,
+  tableResult,
+} from "../../types/interfaces/baseTable";
+import { toWebdriverLocator, uniqueInDocumentOrder } from "../common/selectors";
+import { ElementNotFoundError } from "../common/errors";
+
+/**
+ * Resolves every element currently matched by a selector chain
+ */
+type ElementsQuery = () => Promise<WebElement[]>;
+
+export class SeleniumSelector implements IBaseElement {
+  private actionOptions: runOptions;
+  constructor(
+    private driver: WebDriver,
+    private config: Readonly<baseConfig>,
+    private query: ElementsQuery,
+    private context: actionContext
+  ) {
+    this.actionOptions = getActionOptionsFromConfig(this.config, this.context);
+    this.driver = driver;
+    this.query = query;
+    this.context = context;
+  }
+
+  private childContext(selector: string): actionContext {
+    return {
+      ...this.context,
+      selector: `${this.context.selector} >> ${selector}`,
+    };
+  }
+
+  /**
+   * A selector bound to an element resolved by an iteration, so callbacks don't query the whole list again
+   */
+  private resolved(element: WebElement, index: number): SeleniumSelector {
+    return new SeleniumSelector(
+      this.driver,
+      this.config,
+      async () => [element],
+      this.childContext(`nth=${index}`)
+    );
+  }
+
+  /**
+   * Waits until the selector matches at least one element and returns the first one,
+   * mirroring the auto-waiting of playwright locators
+   */
+  private async element(timeout?: number): Promise<WebElement> {
+    //a timeout of 0 waits until the element shows up
+    const waitTimeout = timeout ?? this.actionOptions.timeout;
+    const deadline = waitTimeout ? Date.now() + waitTimeout : Infinity;
+    for (;;) {
+      const [element] = await this.query();
+      if (element) return element;
+      if (Date.now() >= deadline)
+        throw new ElementNotFoundError(
+          `No element found for selector ${this.context.selector}`
+        );
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+
+  public async click(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      { message: `Clicking on element`, ...this.actionOptions, ...options },
+      async (timeout) => {
+        await (await this.element(timeout)).click();
+      }
+    );
+  }
+
+  public async fill(text: string, options?: actionOptions): Promise<void> {
+    return await safeRun(
+      {
+        message: `Filling element with ${text}`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        const element = await this.element(timeout);
+        await element.clear();
+        await element.sendKeys(text);
+      }
+    );
+  }
+
+  public async clear(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      { message: `Clearing element`, ...this.actionOptions, ...options },
+      async (timeout) => {
+        await (await this.element(timeout)).clear();
+      }
+    );
+  }
+
+  public async getText(options?: actionOptions): Promise<string> {
+    return await safeRun(
+      {
+        message: `Getting text from element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        return await (await this.element(timeout)).getText();
+      }
+    );
+  }
+
+  public async rightClick(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      {
+        message: `Right clicking on element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        const element = await this.element(timeout);
+        await this.driver
+          .actions({ async: true })
+          .contextClick(element)
+          .perform();
+      }
+    );
+  }
+
+  public async doubleClick(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      {
+        message: `Double clicking on element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        const element = await this.element(timeout);
+        await this.driver
+          .actions({ async: true })
+          .doubleClick(element)
+          .perform();
+      }
+    );
+  }
+
+  public async selectOption(
+    option: string | number,
+    options?: actionOptions
+  ): Promise<void> {
+    return await safeRun(
+      {
+        message: `Selecting option ${option}`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        // match on value or label like playwright's locator.selectOption
+        const value = option.toString();
+        const candidates = await (
+          await this.element(timeout)
+        ).findElements(By.css("option"));
+        for (const candidate of candidates) {
+          if (
+            (await candidate.getAttribute("value")) === value ||
+            (await candidate.getAttribute("label")) === value
+          ) {
+            if (!(await candidate.isSelected())) await candidate.click();
+            return;
+          }
+        }
+        throw new ElementNotFoundError(`Option ${option} does not exist`);
+      }
+    );
+  }
+
+  public async getValue(options?: actionOptions): Promise<string> {
+    return await safeRun(
+      {
+        message: `Getting value from element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        return (
+          (await (await this.element(timeout)).getAttribute("value")) ?? ""
+        );
+      }
+    );
+  }
+
+  public async isEnabled(options?: actionOptions): Promise<boolean> {
+    return await safeRun(
+      {
+        message: `Checking if element is enabled`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        return await (await this.element(timeout)).isEnabled();
+      }
+    );
+  }
+
+  public async isVisible(options?: actionOptions): Promise<boolean> {
+    return await safeRun(
+      {
+        message: `Checking if element is visible`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        // like playwright, visibility is checked immediately without waiting
+        const [element] = await this.query();
+        if (!element) return false;
+        return await element.isDisplayed();
+      }
+    );
+  }
+
+  public async isSelected(options?: actionOptions): Promise<boolean> {
+    return await safeRun(
+      {
+        message: `Checking if element is selected`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        return await (await this.element(timeout)).isSelected();
+      }
+    );
+  }
+
+  public async getAttribute(
+    name: string,
+    options?: actionOptions
+  ): Promise<string | null> {
+    return await safeRun(
+      {
+        message: `Getting attribute ${name} from element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        return await (await this.element(timeout)).getDomAttribute(name);
+      }
+    );
+  }
+
+  public async getCssValue(
+    property: string,
+    options?: actionOptions
+  ): Promise<string> {
+    return await safeRun(
+      {
+        message: `Getting css value ${property} from element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        return await (await this.element(timeout)).getCssValue(property);
+      }
+    );
+  }
+
+  public async getLocation(
+    options?: actionOptions
+  ): Promise<{ x: number; y: number }> {
+    return await safeRun(
+      {
+        message: `Getting location from element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        const { x, y } = await (await this.element(timeout)).getRect();
+        return { x, y };
+      }
+    );
+  }
+
+  public async getTagName(options?: actionOptions): Promise<string> {
+    return await safeRun(
+      {
+        message: `Getting tag name from element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        return (await (await this.element(timeout)).getTagName()).toLowerCase();
+      }
+    );
+  }
+
+  public async submit(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      {
+        message: `Submitting element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        await (await this.element(timeout)).submit();
+      }
+    );
+  }
+
+  public async hover(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      {
+        message: `Hovering element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        const element = await this.element(timeout);
+        await this.driver
+          .actions({ async: true })
+          .move({ origin: element })
+          .perform();
+      }
+    );
+  }
+
+  public async dragAndDrop(
+    target: SeleniumSelector,
+    options?: actionOptions
+  ): Promise<void> {
+    return await safeRun(
+      {
+        message: `Dragging and dropping element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        const source = await this.element(timeout);
+        const destination = await target.element(timeout);
+        await this.driver
+          .actions({ async: true })
+          .dragAndDrop(source, destination)
+          .perform();
+      }
+    );
+  }
+
+  public async takeScreenshot(
+    filePath: string,
+    options?: actionOptions
+  ): Promise<void> {
+    return await safeRun(
+      {
+        message: `Taking screenshot of element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        const screenshot = await (await this.element(timeout)).takeScreenshot();
+        await writeFile(filePath, screenshot, "base64");
+      }
+    );
+  }
+
+  public async waitForElement(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      {
+        message: `Waiting for element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        await this.element(timeout);
+      }
+    );
+  }
+
+  public async count(options?: actionOptions): Promise<number> {
+    return await safeRun(
+      {
+        message: `Counting elements`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        return (await this.query()).length;
+      }
+    );
+  }
+
+  public async getHTML(options?: actionOptions): Promise<string> {
+    return await safeRun(
+      {
+        message: `Getting HTML from element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async (timeout) => {
+        return (
+          (await (await this.element(timeout)).getAttribute("innerHTML")) ?? ""
+        );
+      }
+    );
+  }
+
+  public async extract<const S extends extractionSchema>(
+    schema: S,
+    options?: actionOptions
+  ): Promise<extractionResult<S>> {
+    return await safeRun(
+      {
+        message: "Extracting schema",
+        ...this.actionOptions,
+        //the timeout applies to every read rather than the whole extraction
+        timeout: 0,
+        ...options,
+      },
+      async () =>
+        await extractSchema(
+          this,
+          schema,
+          options?.timeout ?? this.actionOptions.timeout
+        )
+    );
+  }
+
+  public async extractTable<F extends tableFormat = "matrix">(
+    options?: tableOptions<F>
+  ): Promise<tableResult<F>> {
+    return await safeRun(
+      { message: "Extracting table", ...this.actionOptions, ...options },
+      async (timeout) =>
+        await extractTable(
+          this,
+          options?.format,
+          options?.headerSeparator,
+          timeout
+        )
+    );
+  }
+
+  public async forEach(
+    callback: (element: IBaseElement, index: number) => Promise<void>
+  ): Promise<void> {
+    const elements = await this.query();
+    for (let i = 0; i < elements.length; i++) {
+      await callback(this.resolved(elements[i], i), i);
+    }
+  }
+
+  public async filter(
+    callback: (element: IBaseElement, index: number) => Promise<boolean>
+  ): Promise<IBaseElement[]> {
+    const result: IBaseElement[] = [];
+    const elements = await this.query();
+    for (let i = 0; i < elements.length; i++) {
+      const element = this.resolved(elements[i], i);
+      if (await callback(element, i)) {
+        result.push(element);
+      }
+    }
+    return result;
+  }
+
+  public async map<T>(
+    callback: (element: IBaseElement, index: number) => Promise<T>
+  ): Promise<T[]> {
+    const result: T[] = [];
+    const elements = await this.query();
+    for (let i = 0; i < elements.length; i++) {
+      result.push(await callback(this.resolved(elements[i], i), i));
+    }
+    return result;
+  }
+
+  public nth(index: number): SeleniumSelector {
+    return new SeleniumSelector(
+      this.driver,
+      this.config,
+      async () => {
+        const elements = await this.query();
+        return index < elements.length ? [elements[index]] : [];
+      },
+      this.childContext(`nth=${index}`)
+    );
+  }
+
+  public async handle(options?: actionOptions): Promise<IBaseElement> {
+    return await safeRun(
+      { message: `Resolving element`, ...this.actionOptions, ...options },
+      async (timeout) => {
+        const element = await this.element(timeout);
+        return new SeleniumSelector(
+          this.driver,
+          this.config,
+          async () => [element],
+          this.context
+        );
+      }
+    );
+  }
+
+  public selector(
+    selector: string,
+    forceSelectorType?: SelectorTypeOption
+  ): IBaseElement {
+    const { using, value } = toWebdriverLocator(
+      selector,
+      forceSelectorType,
+      true
+    );
+    return new SeleniumSelector(
+      this.driver,
+      this.config,
+      async () => {
+        const parents = await this.query();
+        const children = ([] as WebElement[]).concat(
+          ...(await Promise.all(
+            parents.map((parent) => parent.findElements(new By(using, value)))
+          ))
+        );
+        if (parents.length < 2) return children;
+        //nested parents match the same children
+        const kept = await this.driver.executeScript<number[]>(
+          uniqueInDocumentOrder,
+          ...children
+        );
+        return kept.map((index) => children[index]);
+      },
+      this.childContext(selector)
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { error as webdriverError } from "selenium-webdriver";
+import {
+  ActionTimeoutError,
+  BackendUnsupportedError,
+  DialogNotPresentError,
+  ElementNotFoundError,
+  errorClassifier,
+  TabNotFoundError,
+} from "../common/errors";
+
+/**
+ * Maps selenium webdriver errors onto the framework error classes
+ */
+export const classifySeleniumError: errorClassifier = (error) => {
+  if (
+    error instanceof webdriverError.NoSuchElementError ||
+    error instanceof webdriverError.StaleElementReferenceError
+  )
+    return ElementNotFoundError;
+  if (
+    error instanceof webdriverError.TimeoutError ||
+    error instanceof webdriverError.ScriptTimeoutError
+  )
+    return ActionTimeoutError;
+  if (error instanceof webdriverError.NoSuchAlertError)
+    return DialogNotPresentError;
+  if (error instanceof webdriverError.NoSuchWindowError)
+    return TabNotFoundError;
+  if (
+    error instanceof webdriverError.UnsupportedOperationError ||
+    error instanceof webdriverError.UnknownCommandError
+  )
+    return BackendUnsupportedError;
+  return undefined;
+};
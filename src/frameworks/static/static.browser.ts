@@ -0,0 +1,538 @@
+import { CheerioAPI, load } from "cheerio";
+import {
+  IBaseBrowser,
+  SelectorTypeOption,
+} from "../../types/interfaces/baseBrowser";
+import { IBaseElement } from "../../types/interfaces/baseElement";
+import { actionOptions } from "../../types/interfaces/baseActionoptions";
+import {
+  actionContext,
+  getActionOptionsFromConfig,
+  runOptions,
+  safeRun,
+} from "../common/utils";
+import {
+  ActionTimeoutError,
+  errorClassifier,
+  NavigationError,
+  TabNotFoundError,
+} from "../common/errors";
+import { toCheerioSelector } from "../common/selectors";
+import { baseConfig } from "../../types/interfaces/baseConfig";
+import { loadConfig } from "../common/configLoader";
+import { extractSchema } from "../common/extract";
+import { navigate } from "../common/navigation";
+import { usesProxy } from "../common/proxy";
+import { cannedBody, resolveInterception } from "../common/interception";
+import { interceptRule } from "../../types/interfaces/baseInterception";
+import { flushDatasets } from "../common/dataset";
+import { ResponseListeners } from "../common/responses";
+import {
+  capturedResponse,
+  responseCapture,
+  responseMatcher,
+} from "../../types/interfaces/baseResponses";
+import { scrollUntilExhausted } from "../common/harvest";
+import { harvestOptions } from "../../types/interfaces/baseHarvest";
+import {
+  extractionResult,
+  extractionSchema,
+} from "../../types/interfaces/baseSchema";
+import { StaticSelector, unsupportedInStaticMode } from "./static.element";
+
+interface StaticDocument {
+  url: string;
+  $: CheerioAPI;
+}
+
+/**
+ * A tab keeps every fetched document so history navigation does not hit the network again
+ */
+interface StaticTab {
+  history: StaticDocument[];
+  position: number;
+}
+
+const blankDocument = (): StaticDocument => ({
+  url: "about:blank",
+  $: load(""),
+});
+
+/**
+ * fetch aborted by AbortSignal.timeout rejects with a DOMException named TimeoutError
+ */
+const classifyStaticError: errorClassifier = (error) =>
+  error instanceof Error && error.name === "TimeoutError"
+    ? ActionTimeoutError
+    : undefined;
+
+export class StaticBrowser implements IBaseBrowser {
+  private config: Readonly<baseConfig>;
+  private tabs: StaticTab[] = [];
+  private currentTab: number = 0;
+  //only the documents fetched by the browser are intercepted, there are no subresources
+  private interceptRules: interceptRule[] = [];
+  //likewise only the documents are reported to the response listeners
+  private responses = new ResponseListeners();
+  private tab: StaticTab;
+
+  private constructor(config: Readonly<baseConfig>) {
+    this.tab = { history: [blankDocument()], position: 0 };
+    this.tabs.push(this.tab);
+    this.config = config;
+  }
+
+  private get actionContext(): actionContext {
+    const tab = this.tab;
+    return {
+      backend: "static",
+      tab: this.currentTab,
+      currentUrl: async () => this.current(tab).url,
+      classifyError: classifyStaticError,
+    };
+  }
+
+  private get actionOptions(): runOptions {
+    return getActionOptionsFromConfig(this.config, this.actionContext);
+  }
+
+  static async init(overrides?: baseConfig): Promise<IBaseBrowser> {
+    const config = loadConfig(overrides);
+    if (config.recordHar || config.replayHar)
+      throw unsupportedInStaticMode(
+        config.recordHar ? "recordHar" : "replayHar"
+      );
+    if (usesProxy(config)) throw unsupportedInStaticMode("proxy");
+    if (config.restoreSession) throw unsupportedInStaticMode("restoreSession");
+    return new StaticBrowser(config);
+  }
+
+  private current(tab: StaticTab = this.tab): StaticDocument {
+    return tab.history[tab.position];
+  }
+
+  private async fetchDocument(
+    url: string,
+    timeout?: number
+  ): Promise<StaticDocument> {
+    const target = new URL(url, this.current().url).toString();
+    //a timeout of 0 never aborts the request
+    const fetchTimeout = timeout ?? this.actionOptions.timeout;
+    const decision = resolveInterception(this.interceptRules, {
+      url: target,
+      method: "GET",
+      resourceType: "document",
+      headers: {},
+    });
+    if (decision.action === "block")
+      throw new NavigationError(`Request to ${target} was blocked`);
+    if (decision.action === "fulfill") {
+      const { status, contentType, body } = cannedBody(decision.response);
+      this.responses.emit({
+        url: target,
+        method: "GET",
+        status,
+        headers: {
+          ...decision.response.headers,
+          ...(contentType && { "content-type": contentType }),
+        },
+        text: async () => body,
+      });
+      if (status >= 400)
+        throw new NavigationError(`Failed to fetch ${target}: ${status}`);
+      return { url: target, $: load(body) };
+    }
+    const response = await fetch(target, {
+      headers: decision.headers,
+      signal: fetchTimeout ? AbortSignal.timeout(fetchTimeout) : undefined,
+    });
+    const text = await response.text();
+    this.responses.emit({
+      url: response.url || target,
+      method: "GET",
+      status: response.status,
+      headers: Object.fromEntries(response.headers),
+      text: async () => text,
+    });
+    if (!response.ok)
+      throw new NavigationError(
+        `Failed to fetch ${target}: ${response.status} ${response.statusText}`
+      );
+    return { url: response.url || target, $: load(text) };
+  }
+
+  private async unsupported(
+    member: string,
+    options?: actionOptions
+  ): Promise<any> {
+    return await safeRun(
+      { message: `Calling ${member}`, ...this.actionOptions, ...options },
+      async () => {
+        throw unsupportedInStaticMode(member);
+      }
+    );
+  }
+
+  public selector(
+    selector: string,
+    forceSelectorType?: SelectorTypeOption
+  ): IBaseElement {
+    const tab = this.tab;
+    return new StaticSelector(
+      () => this.current(tab).$(toCheerioSelector(selector, forceSelectorType)),
+      this.config,
+      { ...this.actionContext, selector }
+    );
+  }
+
+  public async navigateTo(
+    url: string,
+    options?: actionOptions
+  ): Promise<boolean> {
+    //the safeRun timeout would count the delays of the crawling rules, the engine bounds the load instead
+    const timeout = options?.timeout ?? this.actionOptions.timeout;
+    return await safeRun(
+      {
+        message: `Navigating to ${url}`,
+        errorClass: NavigationError,
+        ...this.actionOptions,
+        ...options,
+        timeout: 0,
+      },
+      async () => {
+        const target = new URL(url, this.current().url).toString();
+        return await navigate(target, this.config, timeout, async () => {
+          const document = await this.fetchDocument(target, timeout);
+          //drop the forward history like a browser does
+          this.tab.history.splice(this.tab.position + 1);
+          this.tab.history.push(document);
+          this.tab.position = this.tab.history.length - 1;
+        });
+      }
+    );
+  }
+
+  public async getUrl(options?: actionOptions): Promise<string> {
+    return await safeRun(
+      { message: "Getting URL", ...this.actionOptions, ...options },
+      async () => {
+        return this.current().url;
+      }
+    );
+  }
+
+  public async closeBrowser(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      { message: "Closing browser", ...this.actionOptions, ...options },
+      async () => {
+        flushDatasets();
+        this.tabs = [];
+      }
+    );
+  }
+
+  /**
+   * Fetches a history entry again and moves to it, behind the crawling rules like navigateTo.
+   * A navigation skipped by robots.txt stays on the current entry
+   */
+  private async revisit(
+    message: string,
+    position: number,
+    options?: actionOptions
+  ): Promise<void> {
+    //like navigateTo, the delays of the crawling rules are not counted, the engine bounds the load instead
+    const timeout = options?.timeout ?? this.actionOptions.timeout;
+    return await safeRun(
+      {
+        message,
+        errorClass: NavigationError,
+        ...this.actionOptions,
+        ...options,
+        timeout: 0,
+      },
+      async () => {
+        const tab = this.tab;
+        if (position < 0 || position >= tab.history.length) return;
+        const { url } = tab.history[position];
+        if (url !== "about:blank") {
+          const loaded = await navigate(url, this.config, timeout, async () => {
+            tab.history[position] = await this.fetchDocument(url, timeout);
+          });
+          if (!loaded) return;
+        }
+        tab.position = position;
+      }
+    );
+  }
+
+  public async navigateBack(options?: actionOptions): Promise<void> {
+    return await this.revisit(
+      "Navigating back",
+      this.tab.position - 1,
+      options
+    );
+  }
+
+  public async navigateForward(options?: actionOptions): Promise<void> {
+    return await this.revisit(
+      "Navigating forward",
+      this.tab.position + 1,
+      options
+    );
+  }
+
+  public async refresh(options?: actionOptions): Promise<void> {
+    return await this.revisit("Refreshing page", this.tab.position, options);
+  }
+
+  public async openTab(url?: string, options?: actionOptions): Promise<void> {
+    //like navigateTo, the delays of the crawling rules are not counted, the engine bounds the load instead
+    const timeout = options?.timeout ?? this.actionOptions.timeout;
+    return await safeRun(
+      {
+        message: "Opening new tab",
+        ...this.actionOptions,
+        ...options,
+        timeout: url ? 0 : timeout,
+      },
+      async () => {
+        const newTab = { history: [blankDocument()], position: 0 };
+        this.tabs.push(newTab);
+        this.currentTab = this.tabs.length - 1;
+        this.tab = newTab;
+        if (url) {
+          const target = new URL(url, this.current().url).toString();
+          await navigate(target, this.config, timeout, async () => {
+            newTab.history[0] = await this.fetchDocument(target, timeout);
+          });
+        }
+      }
+    );
+  }
+
+  public async closeTab(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      { message: "Closing tab", ...this.actionOptions, ...options },
+      async () => {
+        //remove the closed tab from the tabs array
+        this.tabs.splice(this.currentTab, 1);
+        if (this.tabs.length === 0) return;
+        this.currentTab = this.tabs.length - 1;
+        this.tab = this.tabs[this.currentTab];
+      }
+    );
+  }
+
+  public async switchToTab(
+    tabNumber: number,
+    options?: actionOptions
+  ): Promise<void> {
+    return await safeRun(
+      {
+        message: `Switching to tab ${tabNumber}`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        if (tabNumber < 0 || tabNumber > this.tabs.length - 1)
+          throw new TabNotFoundError(`Tab ${tabNumber} does not exist`);
+        this.currentTab = tabNumber;
+        this.tab = this.tabs[this.currentTab];
+      }
+    );
+  }
+
+  public async openWorker(options?: actionOptions): Promise<IBaseBrowser> {
+    return await safeRun(
+      { message: "Opening worker", ...this.actionOptions, ...options },
+      async () => new StaticBrowser(this.config)
+    );
+  }
+
+  public async intercept(
+    rule: interceptRule,
+    options?: actionOptions
+  ): Promise<void> {
+    return await safeRun(
+      {
+        message: `Adding ${rule.action} interception`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        this.interceptRules.push(rule);
+      }
+    );
+  }
+
+  public async clearInterceptions(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      { message: "Clearing interceptions", ...this.actionOptions, ...options },
+      async () => {
+        this.interceptRules = [];
+      }
+    );
+  }
+
+  public async captureResponses(
+    matcher: responseMatcher,
+    options?: actionOptions
+  ): Promise<responseCapture> {
+    return await safeRun(
+      { message: "Capturing responses", ...this.actionOptions, ...options },
+      async () => this.responses.capture(matcher)
+    );
+  }
+
+  public async awaitResponse(
+    matcher: responseMatcher,
+    trigger?: () => Promise<unknown>,
+    options?: actionOptions
+  ): Promise<capturedResponse> {
+    return await safeRun(
+      { message: "Waiting for response", ...this.actionOptions, ...options },
+      async (timeout) => await this.responses.next(matcher, trigger, timeout)
+    );
+  }
+
+  public async saveSession(
+    path: string,
+    options?: actionOptions
+  ): Promise<void> {
+    return await this.unsupported("saveSession", options);
+  }
+
+  public async $eval<T>(
+    callBack: (arg: any) => T,
+    arg: any,
+    options: actionOptions
+  ): Promise<T> {
+    return await this.unsupported("$eval", options);
+  }
+
+  public async extract<const S extends extractionSchema>(
+    schema: S,
+    options?: actionOptions
+  ): Promise<extractionResult<S>> {
+    return await safeRun(
+      {
+        message: "Extracting schema",
+        ...this.actionOptions,
+        //the timeout applies to every read rather than the whole extraction
+        timeout: 0,
+        ...options,
+      },
+      async () =>
+        await extractSchema(
+          this,
+          schema,
+          options?.timeout ?? this.actionOptions.timeout
+        )
+    );
+  }
+
+  public get mouseActions() {
+    return {
+      move: async (
+        x: number,
+        y: number,
+        options?: actionOptions
+      ): Promise<void> => {
+        return await this.unsupported("mouseActions.move", options);
+      },
+      click: async (
+        coords: { x: number; y: number },
+        options?: actionOptions
+      ): Promise<void> => {
+        return await this.unsupported("mouseActions.click", options);
+      },
+      doubleClick: async (
+        coords: { x: number; y: number },
+        options?: actionOptions
+      ): Promise<void> => {
+        return await this.unsupported("mouseActions.doubleClick", options);
+      },
+    };
+  }
+
+  public get keyboardActions() {
+    return {
+      press: async (key: string, options?: actionOptions): Promise<void> => {
+        return await this.unsupported("keyboardActions.press", options);
+      },
+    };
+  }
+
+  public get scroll() {
+    return {
+      up: async (options?: actionOptions): Promise<void> => {
+        return await this.unsupported("scroll.up", options);
+      },
+      down: async (options?: actionOptions): Promise<void> => {
+        return await this.unsupported("scroll.down", options);
+      },
+      left: async (options?: actionOptions): Promise<void> => {
+        return await this.unsupported("scroll.left", options);
+      },
+      right: async (options?: actionOptions): Promise<void> => {
+        return await this.unsupported("scroll.right", options);
+      },
+      untilExhausted: (options: harvestOptions): AsyncGenerator<IBaseElement> =>
+        scrollUntilExhausted(this, options),
+    };
+  }
+
+  public get alert() {
+    return {
+      accept: async (options?: actionOptions): Promise<void> => {
+        return await this.unsupported("alert.accept", options);
+      },
+      dismiss: async (options?: actionOptions): Promise<void> => {
+        return await this.unsupported("alert.dismiss", options);
+      },
+      getText: async (options?: actionOptions): Promise<string> => {
+        return await this.unsupported("alert.getText", options);
+      },
+      sendKeys: async (
+        keys: string,
+        options?: actionOptions
+      ): Promise<void> => {
+        return await this.unsupported("alert.sendKeys", options);
+      },
+    };
+  }
+
+  public get waitFor() {
+    return {
+      pageLoad: async (options?: actionOptions): Promise<void> => {
+        await safeRun(
+          {
+            message: `Waiting for page load`,
+            ...this.actionOptions,
+            ...options,
+          },
+          async () => {
+            //documents are fully parsed once navigateTo resolves
+          }
+        );
+      },
+      timeout: async (
+        timeout: number,
+        options?: actionOptions
+      ): Promise<void> => {
+        await safeRun(
+          {
+            message: `Waiting for ${timeout}ms`,
+            ...this.actionOptions,
+            //the wait itself is not bounded by the action timeout
+            timeout: 0,
+            ...options,
+          },
+          async () => {
+            await new Promise((resolve) => setTimeout(resolve, timeout));
+          }
+        );
+      },
+    };
+  }
+}
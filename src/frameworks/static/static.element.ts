@@ -0,0 +1,362 @@
+import { Cheerio } from "cheerio";
+import { actionOptions } from "../../types/interfaces/baseActionoptions";
+import { baseConfig } from "../../types/interfaces/baseConfig";
+import { IBaseElement } from "../../types/interfaces/baseElement";
+import { SelectorTypeOption } from "../../types/interfaces/baseBrowser";
+import {
+  actionContext,
+  getActionOptionsFromConfig,
+  runOptions,
+  safeRun,
+} from "../common/utils";
+import { extractSchema } from "../common/extract";
+import { extractTable } from "../common/table";
+import {
+  extractionResult,
+  extractionSchema,
+} from "../../types/interfaces/baseSchema";
+import {
+  tableFormat,
+  tableOptions,
+  tableResult,
+} from "../../types/interfaces/baseTable";
+import { toCheerioSelector } from "../common/selectors";
+import {
+  BackendUnsupportedError,
+  ElementNotFoundError,
+} from "../common/errors";
+
+/**
+ * Resolves the nodes currently matched by a selector chain in the tab's current document
+ */
+type NodesQuery = () => Cheerio<any>;
+
+export const unsupportedInStaticMode = (
+  member: string
+): BackendUnsupportedError =>
+  new BackendUnsupportedError(`${member} is unsupported in static mode`);
+
+export class StaticSelector implements IBaseElement {
+  private actionOptions: runOptions;
+  constructor(
+    private query: NodesQuery,
+    private config: Readonly<baseConfig>,
+    private context: actionContext
+  ) {
+    this.actionOptions = getActionOptionsFromConfig(this.config, this.context);
+    this.query = query;
+    this.context = context;
+  }
+
+  private childContext(selector: string): actionContext {
+    return {
+      ...this.context,
+      selector: `${this.context.selector} >> ${selector}`,
+    };
+  }
+
+  /**
+   * Returns the first matched node, static documents never change so there is nothing to wait for
+   */
+  private element(): Cheerio<any> {
+    const element = this.query().first();
+    if (element.length === 0)
+      throw new ElementNotFoundError(
+        `No element found for selector ${this.context.selector}`
+      );
+    return element;
+  }
+
+  private async unsupported(
+    member: string,
+    options?: actionOptions
+  ): Promise<any> {
+    return await safeRun(
+      { message: `Calling ${member}`, ...this.actionOptions, ...options },
+      async () => {
+        throw unsupportedInStaticMode(member);
+      }
+    );
+  }
+
+  public async click(options?: actionOptions): Promise<void> {
+    return await this.unsupported("click", options);
+  }
+
+  public async fill(text: string, options?: actionOptions): Promise<void> {
+    return await this.unsupported("fill", options);
+  }
+
+  public async clear(options?: actionOptions): Promise<void> {
+    return await this.unsupported("clear", options);
+  }
+
+  public async getText(options?: actionOptions): Promise<string> {
+    return await safeRun(
+      {
+        message: `Getting text from element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        return this.element().text();
+      }
+    );
+  }
+
+  public async rightClick(options?: actionOptions): Promise<void> {
+    return await this.unsupported("rightClick", options);
+  }
+
+  public async doubleClick(options?: actionOptions): Promise<void> {
+    return await this.unsupported("doubleClick", options);
+  }
+
+  public async selectOption(
+    option: string | number,
+    options?: actionOptions
+  ): Promise<void> {
+    return await this.unsupported(`selectOption(${option})`, options);
+  }
+
+  public async getValue(options?: actionOptions): Promise<string> {
+    return await safeRun(
+      {
+        message: `Getting value from element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        const element = this.element();
+        if (element.is("select")) {
+          const selected = element.find("option[selected]").first();
+          const option = selected.length
+            ? selected
+            : element.find("option").first();
+          return option.attr("value") ?? option.text();
+        }
+        if (element.is("textarea")) return element.text();
+        return element.attr("value") ?? "";
+      }
+    );
+  }
+
+  public async isEnabled(options?: actionOptions): Promise<boolean> {
+    return await safeRun(
+      {
+        message: `Checking if element is enabled`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        return this.element().attr("disabled") === undefined;
+      }
+    );
+  }
+
+  public async isVisible(options?: actionOptions): Promise<boolean> {
+    return await this.unsupported("isVisible", options);
+  }
+
+  public async isSelected(options?: actionOptions): Promise<boolean> {
+    return await safeRun(
+      {
+        message: `Checking if element is selected`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        const element = this.element();
+        return (
+          element.attr("checked") !== undefined ||
+          element.attr("selected") !== undefined
+        );
+      }
+    );
+  }
+
+  public async getAttribute(
+    name: string,
+    options?: actionOptions
+  ): Promise<string | null> {
+    return await safeRun(
+      {
+        message: `Getting attribute ${name} from element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        return this.element().attr(name) ?? null;
+      }
+    );
+  }
+
+  public async getCssValue(
+    property: string,
+    options?: actionOptions
+  ): Promise<string> {
+    return await this.unsupported("getCssValue", options);
+  }
+
+  public async getTagName(options?: actionOptions): Promise<string> {
+    return await safeRun(
+      {
+        message: `Getting tag name from element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        return (this.element().prop("tagName") ?? "").toLowerCase();
+      }
+    );
+  }
+
+  public async hover(options?: actionOptions): Promise<void> {
+    return await this.unsupported("hover", options);
+  }
+
+  public async takeScreenshot(
+    filePath: string,
+    options?: actionOptions
+  ): Promise<void> {
+    return await this.unsupported("takeScreenshot", options);
+  }
+
+  public async waitForElement(options?: actionOptions): Promise<void> {
+    return await safeRun(
+      {
+        message: `Waiting for element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        this.element();
+      }
+    );
+  }
+
+  public async count(options?: actionOptions): Promise<number> {
+    return await safeRun(
+      {
+        message: `Counting elements`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        return this.query().length;
+      }
+    );
+  }
+
+  public async getHTML(options?: actionOptions): Promise<string> {
+    return await safeRun(
+      {
+        message: `Getting HTML from element`,
+        ...this.actionOptions,
+        ...options,
+      },
+      async () => {
+        return this.element().html() ?? "";
+      }
+    );
+  }
+
+  public async extract<const S extends extractionSchema>(
+    schema: S,
+    options?: actionOptions
+  ): Promise<extractionResult<S>> {
+    return await safeRun(
+      {
+        message: "Extracting schema",
+        ...this.actionOptions,
+        //the timeout applies to every read rather than the whole extraction
+        timeout: 0,
+        ...options,
+      },
+      async () =>
+        await extractSchema(
+          this,
+          schema,
+          options?.timeout ?? this.actionOptions.timeout
+        )
+    );
+  }
+
+  public async extractTable<F extends tableFormat = "matrix">(
+    options?: tableOptions<F>
+  ): Promise<tableResult<F>> {
+    return await safeRun(
+      { message: "Extracting table", ...this.actionOptions, ...options },
+      async (timeout) =>
+        await extractTable(
+          this,
+          options?.format,
+          options?.headerSeparator,
+          timeout
+        )
+    );
+  }
+
+  public async forEach(
+    callback: (element: IBaseElement, index: number) => Promise<void>
+  ): Promise<void> {
+    const count = this.query().length;
+    for (let i = 0; i < count; i++) {
+      await callback(this.nth(i), i);
+    }
+  }
+
+  public async filter(
+    callback: (element: IBaseElement, index: number) => Promise<boolean>
+  ): Promise<IBaseElement[]> {
+    const result: IBaseElement[] = [];
+    const count = this.query().length;
+    for (let i = 0; i < count; i++) {
+      const element = this.nth(i);
+      if (await callback(element, i)) {
+        result.push(element);
+      }
+    }
+    return result;
+  }
+
+  public async map<T>(
+    callback: (element: IBaseElement, index: number) => Promise<T>
+  ): Promise<T[]> {
+    const result: T[] = [];
+    const count = this.query().length;
+    for (let i = 0; i < count; i++) {
+      result.push(await callback(this.nth(i), i));
+    }
+    return result;
+  }
+
+  public nth(index: number): StaticSelector {
+    return new StaticSelector(
+      () => this.query().eq(index),
+      this.config,
+      this.childContext(`nth=${index}`)
+    );
+  }
+
+  public async handle(options?: actionOptions): Promise<IBaseElement> {
+    return await safeRun(
+      { message: `Resolving element`, ...this.actionOptions, ...options },
+      async () => {
+        const element = this.element();
+        return new StaticSelector(() => element, this.config, this.context);
+      }
+    );
+  }
+
+  public selector(
+    selector: string,
+    forceSelectorType?: SelectorTypeOption
+  ): IBaseElement {
+    return new StaticSelector(
+      () => this.query().find(toCheerioSelector(selector, forceSelectorType)),
+      this.config,
+      this.childContext(selector)
+    );
+  }
+}
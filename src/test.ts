@@ -1,7 +1,7 @@
 import { frameworkSelector } from "./frameworks/frameworkFascade";
 
 (async () => {
-  const browser = await frameworkSelector.playwright();
+  const browser = await frameworkSelector.playwright({ headless: false });
   await browser.navigateTo("https://www.google.com");
   await browser.openTab("https://www.bing.com");
   console.log(await browser.getUrl());
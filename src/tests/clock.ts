@@ -0,0 +1,43 @@
+import { navigationClock } from "../frameworks/common/rateLimiter";
+
+//a clock whose time only moves when the test advances it
+export class ManualClock implements navigationClock {
+  private time = 0;
+  private sleeping: { until: number; wake: () => void }[] = [];
+
+  public now = (): number => this.time;
+
+  public sleep = (ms: number): Promise<void> =>
+    ms <= 0
+      ? Promise.resolve()
+      : new Promise((wake) =>
+          this.sleeping.push({ until: this.time + ms, wake })
+        );
+
+  /**
+   * Moves the time forward and wakes the sleeps that end by then
+   */
+  public async advance(ms: number): Promise<void> {
+    this.time += ms;
+    const due = this.sleeping.filter(({ until }) => until <= this.time);
+    this.sleeping = this.sleeping.filter(({ until }) => until > this.time);
+    due.forEach(({ wake }) => wake());
+    await settle();
+  }
+}
+
+//lets the pending promise callbacks run
+export const settle = (): Promise<void> =>
+  new Promise((resolve) => setImmediate(resolve));
+
+export const isSettled = async (
+  promise: Promise<unknown>
+): Promise<boolean> => {
+  let settled = false;
+  promise.then(
+    () => (settled = true),
+    () => (settled = true)
+  );
+  await settle();
+  return settled;
+};
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import {
+  loadConfig,
+  readConfigEnv,
+  toEnvName,
+  validateConfig,
+} from "../frameworks/common/configLoader";
+import { defaultConfig } from "../types/interfaces/baseConfig";
+
+const configFile = (name: string, contents: string): string => {
+  const file = join(mkdtempSync(join(tmpdir(), "scraper-config-")), name);
+  writeFileSync(file, contents);
+  return file;
+};
+
+describe("loadConfig", () => {
+  it("layers the defaults, the file, the environment and the overrides", () => {
+    const file = configFile(
+      "scraper.config.yaml",
+      "actionTimeout: 1000\nretries: 1\nretryDelay: 10\n"
+    );
+    const config = loadConfig(
+      { retryDelay: 30 },
+      {
+        file,
+        env: { SCRAPER_RETRIES: "2", SCRAPER_RETRY_DELAY: "20" },
+      }
+    );
+    assert.equal(config.actionTimeout, 1000);
+    assert.equal(config.retries, 2);
+    assert.equal(config.retryDelay, 30);
+    assert.equal(config.retryBackoff, defaultConfig.retryBackoff);
+    assert.ok(Object.isFrozen(config));
+  });
+
+  it("ignores undefined values of every layer", () => {
+    const file = configFile("scraper.config.json", '{"actionTimeout": 1000}');
+    const config = loadConfig(
+      { actionTimeout: undefined, headless: undefined },
+      { file, env: {} }
+    );
+    assert.equal(config.actionTimeout, 1000);
+    assert.equal(config.headless, defaultConfig.headless);
+  });
+
+  it("reports every invalid option at once", () => {
+    assert.throws(
+      () =>
+        loadConfig({ retries: -1, unknown: true } as never, {
+          env: { SCRAPER_HEADLESS: "maybe" },
+        }),
+      /Invalid config from environment: headless must be a boolean/
+    );
+    assert.throws(
+      () => validateConfig({ retries: -1, unknown: true }, "overrides"),
+      /retries .*; unknown option "unknown"/
+    );
+  });
+});
+
+describe("readConfigEnv", () => {
+  it("converts the SCRAPER_* variables to their option types", () => {
+    assert.equal(
+      toEnvName("maxConcurrentNavigations"),
+      "SCRAPER_MAX_CONCURRENT_NAVIGATIONS"
+    );
+    assert.deepEqual(
+      readConfigEnv({
+        SCRAPER_HEADLESS: "no",
+        SCRAPER_ACTION_TIMEOUT: "1500",
+        SCRAPER_LOG_LEVEL: "debug",
+        OTHER: "ignored",
+      }),
+      { headless: false, actionTimeout: 1500, logLevel: "debug" }
+    );
+  });
+});
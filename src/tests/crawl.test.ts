@@ -0,0 +1,155 @@
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { crawl, normalizeUrl } from "../frameworks/common/crawl";
+import { frameworkSelector } from "../frameworks/frameworkFascade";
+import { crawlOptions, crawlReport } from "../types/interfaces/baseCrawler";
+
+const links = (...hrefs: string[]) =>
+  hrefs.map((href) => `<a href="${href}">${href}</a>`).join("");
+
+//a small site, /blocked is disallowed by its robots.txt
+const site: Record<string, string> = {
+  "/robots.txt": "User-agent: *\nDisallow: /blocked\n",
+  "/": links(
+    "/a",
+    "/a#top",
+    "/b?y=2&x=1",
+    "/b?x=1&y=2",
+    "/private/secret",
+    "mailto:someone@example.com",
+    "http://other.example/",
+    "/blocked"
+  ),
+  "/a": links("/", "/a/deep"),
+  "/a/deep": links("/a/deeper"),
+  "/a/deeper": "",
+  "/b": "",
+};
+
+describe("normalizeUrl", () => {
+  it("drops the fragment and sorts the query", () => {
+    assert.equal(
+      normalizeUrl("https://example.com/page?b=2&a=1#section"),
+      "https://example.com/page?a=1&b=2"
+    );
+  });
+
+  it("normalizes the host, the default port and the path", () => {
+    assert.equal(
+      normalizeUrl("HTTPS://Example.COM:443/a/../b/%7euser"),
+      "https://example.com/b/%7euser"
+    );
+  });
+
+  it("resolves relative links against the base", () => {
+    assert.equal(
+      normalizeUrl(
+        "../next.html#top",
+        "https://example.com/pages/1/index.html"
+      ),
+      "https://example.com/pages/next.html"
+    );
+  });
+});
+
+describe("crawl", () => {
+  let server: Server;
+  let origin: string;
+
+  before(async () => {
+    server = createServer((request, response) => {
+      const body = site[new URL(request.url ?? "/", origin).pathname];
+      response.statusCode = body === undefined ? 404 : 200;
+      response.setHeader("content-type", "text/html");
+      response.end(body);
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const run = async (
+    options: Omit<crawlOptions, "seeds">,
+    seed = "/"
+  ): Promise<crawlReport> => {
+    const browser = await frameworkSelector.static({
+      logs: false,
+      respectRobotsTxt: true,
+      robotsDisallowed: "skip",
+    });
+    try {
+      return await crawl(browser, { seeds: [`${origin}${seed}`], ...options });
+    } finally {
+      await browser.closeBrowser();
+    }
+  };
+
+  const visited = (report: crawlReport) =>
+    report.visited.map(({ url }) => url.slice(origin.length));
+
+  const skipped = (report: crawlReport) =>
+    report.skipped.map(({ url, reason }) => [
+      url.startsWith(origin) ? url.slice(origin.length) : url,
+      reason,
+    ]);
+
+  it("visits every page once and reports why the others were skipped", async () => {
+    const report = await run({ exclude: ["/private"] });
+    assert.deepEqual(visited(report), [
+      "/",
+      "/a",
+      "/b?x=1&y=2",
+      "/a/deep",
+      "/a/deeper",
+    ]);
+    assert.deepEqual(skipped(report), [
+      ["/private/secret", "excluded"],
+      ["mailto:someone@example.com", "protocol"],
+      ["http://other.example/", "offDomain"],
+      ["/blocked", "robots"],
+    ]);
+    assert.deepEqual(report.errors, []);
+  });
+
+  it("records the depth and the referrer of the pages", async () => {
+    const report = await run({ exclude: ["/private"] });
+    const deep = report.visited.find(({ url }) => url.endsWith("/a/deep"));
+    assert.equal(deep?.depth, 2);
+    assert.equal(deep?.referrer, `${origin}/a`);
+  });
+
+  it("stops following links past the maximum depth", async () => {
+    const report = await run({ exclude: ["/private"], maxDepth: 1 });
+    assert.deepEqual(visited(report), ["/", "/a", "/b?x=1&y=2"]);
+    assert.deepEqual(
+      skipped(report).filter(([, reason]) => reason === "maxDepth"),
+      [["/a/deep", "maxDepth"]]
+    );
+  });
+
+  it("only visits the included URLs", async () => {
+    const report = await run({ include: [/\/a(\/|$)/] }, "/a");
+    assert.deepEqual(visited(report), ["/a", "/a/deep", "/a/deeper"]);
+    assert.deepEqual(skipped(report), [["/", "notIncluded"]]);
+  });
+
+  it("skips the queued URLs once the maximum number of pages is loaded", async () => {
+    const report = await run({ exclude: ["/private"], maxPages: 2 });
+    assert.deepEqual(visited(report), ["/", "/a"]);
+    assert.deepEqual(
+      skipped(report).filter(([, reason]) => reason === "maxPages"),
+      [
+        ["/b?x=1&y=2", "maxPages"],
+        ["/blocked", "maxPages"],
+        ["/a/deep", "maxPages"],
+      ]
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import {
+  CsvSink,
+  JsonLinesSink,
+  JsonSink,
+  escapeCsv,
+} from "../frameworks/common/dataset";
+
+const tempPath = (name: string): string =>
+  join(mkdtempSync(join(tmpdir(), "scraper-dataset-")), name);
+
+describe("JsonSink", () => {
+  it("keeps the file a valid array after every flush", () => {
+    const path = tempPath("data.json");
+    const sink = new JsonSink({ format: "json", path });
+    sink.write({ id: 1 });
+    sink.flush();
+    assert.deepEqual(JSON.parse(readFileSync(path, "utf8")), [{ id: 1 }]);
+    sink.write({ id: 2 });
+    sink.close();
+    assert.deepEqual(JSON.parse(readFileSync(path, "utf8")), [
+      { id: 1 },
+      { id: 2 },
+    ]);
+    assert.throws(() => sink.write({ id: 3 }), /is closed/);
+  });
+
+  it("writes an empty array when closed without records", () => {
+    const path = tempPath("data.json");
+    new JsonSink({ format: "json", path }).close();
+    assert.equal(readFileSync(path, "utf8"), "[]\n");
+  });
+
+  it("rotates files by record count", () => {
+    const path = tempPath("data.json");
+    const sink = new JsonSink({ format: "json", path, maxRecords: 2 });
+    [1, 2, 3].forEach((id) => sink.write({ id }));
+    sink.close();
+    assert.deepEqual(JSON.parse(readFileSync(path, "utf8")), [
+      { id: 1 },
+      { id: 2 },
+    ]);
+    assert.deepEqual(
+      JSON.parse(readFileSync(path.replace(/\.json$/, ".1.json"), "utf8")),
+      [{ id: 3 }]
+    );
+  });
+});
+
+describe("JsonLinesSink", () => {
+  it("writes once the buffer is full", () => {
+    const path = tempPath("data.jsonl");
+    const sink = new JsonLinesSink({ format: "jsonl", path, bufferSize: 2 });
+    sink.write({ id: 1 });
+    assert.equal(existsSync(path), false);
+    sink.write({ id: 2 });
+    assert.equal(readFileSync(path, "utf8"), '{"id":1}\n{"id":2}\n');
+  });
+
+  it("rotates files by size", () => {
+    const path = tempPath("data.jsonl");
+    const sink = new JsonLinesSink({ format: "jsonl", path, maxBytes: 20 });
+    [1, 2, 3].forEach((id) => sink.write({ id }));
+    sink.close();
+    assert.equal(readFileSync(path, "utf8"), '{"id":1}\n{"id":2}\n');
+    assert.equal(
+      readFileSync(path.replace(/\.jsonl$/, ".1.jsonl"), "utf8"),
+      '{"id":3}\n'
+    );
+  });
+});
+
+describe("CsvSink", () => {
+  it("infers the header from the first records and escapes cells", () => {
+    const path = tempPath("data.csv");
+    const sink = new CsvSink({ format: "csv", path });
+    sink.write({ name: "a, b", note: 'say "hi"' });
+    sink.write({ name: "c", extra: 1 });
+    sink.close();
+    assert.equal(
+      readFileSync(path, "utf8"),
+      'name,note,extra\n"a, b","say ""hi""",\nc,,1\n'
+    );
+  });
+
+  it("escapes only the cells that need it", () => {
+    assert.equal(escapeCsv("plain"), "plain");
+    assert.equal(escapeCsv(" padded"), '" padded"');
+    assert.equal(escapeCsv("two\nlines"), '"two\nlines"');
+    assert.equal(escapeCsv(null), "");
+    assert.equal(escapeCsv({ a: 1 }), '"{""a"":1}"');
+    assert.equal(
+      escapeCsv(new Date("2020-01-01T00:00:00Z")),
+      "2020-01-01T00:00:00.000Z"
+    );
+  });
+});
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { load } from "cheerio";
+import { scrollUntilExhausted } from "../frameworks/common/harvest";
+import { StaticSelector } from "../frameworks/static/static.element";
+import { IBaseBrowser } from "../types/interfaces/baseBrowser";
+import { IBaseElement } from "../types/interfaces/baseElement";
+import { defaultConfig } from "../types/interfaces/baseConfig";
+
+const item = (id: number) => `<li class="item" data-id="${id}"></li>`;
+
+//a virtualized feed of 10 items, it keeps 3 of them rendered and moves 2 further on every scroll
+class VirtualizedFeed implements Pick<IBaseBrowser, "selector" | "$eval"> {
+  private $ = load(`<ul>${[0, 1, 2].map(item).join("")}</ul>`);
+  private first = 0;
+
+  public selector(selector: string): IBaseElement {
+    return new StaticSelector(
+      () => this.$(selector),
+      { ...defaultConfig, logs: false },
+      { selector }
+    );
+  }
+
+  public async $eval<T>(): Promise<T> {
+    const next = Math.min(this.first + 2, 7);
+    this.$(".item")
+      .slice(0, next - this.first)
+      .remove();
+    for (let id = this.first + 3; id < next + 3; id++)
+      this.$("ul").append(item(id));
+    this.first = next;
+    //scrollToEnd found the page
+    return true as unknown as T;
+  }
+}
+
+describe("scrollUntilExhausted", () => {
+  it("yields every item of a virtualized feed once, bound to its node", async () => {
+    const items: IBaseElement[] = [];
+    for await (const item of scrollUntilExhausted(new VirtualizedFeed(), {
+      itemSelector: ".item",
+      idleTimeout: 200,
+      key: async (item) => (await item.getAttribute("data-id")) as string,
+    }))
+      items.push(item);
+    const ids = await Promise.all(
+      items.map((item) => item.getAttribute("data-id"))
+    );
+    assert.deepEqual(ids, ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"]);
+  });
+});
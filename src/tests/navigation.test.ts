@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { FixtureServer, startFixtureServer } from "../conformance/server";
+import { frameworkSelector } from "../frameworks/frameworkFascade";
+import {
+  acquireNavigationSlot,
+  setNavigationClock,
+} from "../frameworks/common/rateLimiter";
+import { isSettled, ManualClock } from "./clock";
+
+//the static backend loads pages without a browser, the crawling rules are applied the same way by every backend
+describe("crawling rules", () => {
+  let server: FixtureServer;
+
+  before(async () => {
+    server = await startFixtureServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("don't count against the timeout of openTab and navigateTo", async () => {
+    const clock = new ManualClock();
+    setNavigationClock(clock);
+    const config = {
+      logs: false,
+      throwOnFail: true,
+      retries: 0,
+      actionTimeout: 50,
+      navigationDelay: 1000,
+      rateLimit: 1,
+      rateLimitInterval: 1200,
+    };
+    const first = await frameworkSelector.static(config);
+    const second = await frameworkSelector.static(config);
+    try {
+      await first.openTab(`${server.url}/index.html`);
+      //both loads are queued behind the first one, on the clock of the rate limiter
+      const opened = first.openTab(`${server.url}/list.html`);
+      const navigated = second.navigateTo(`${server.url}/tabs.html`);
+      //real time outlasts the timeout and its grace period while they wait
+      await new Promise((resolve) => setTimeout(resolve, 700));
+      assert.equal(await isSettled(opened), false);
+      assert.equal(await isSettled(navigated), false);
+      await clock.advance(2400);
+      await opened;
+      await navigated;
+      assert.equal(await second.selector("#title").getText(), "First tab");
+    } finally {
+      //wakes the loads a failed assertion left waiting, they would hold the slots of the origin
+      await clock.advance(Infinity);
+      setNavigationClock();
+      await first.closeBrowser();
+      await second.closeBrowser();
+    }
+  });
+
+  it("apply to navigateBack, navigateForward and refresh", async () => {
+    const config = { maxConcurrentNavigations: 1 };
+    const browser = await frameworkSelector.static({
+      logs: false,
+      throwOnFail: true,
+      ...config,
+    });
+    await browser.navigateTo(`${server.url}/index.html`);
+    await browser.navigateTo(`${server.url}/list.html`);
+    const revisits = [
+      () => browser.navigateBack(),
+      () => browser.navigateForward(),
+      () => browser.refresh(),
+    ];
+    for (const revisit of revisits) {
+      //the only slot of the origin is taken, the page load has to wait for it
+      const release = await acquireNavigationSlot(server.url, config);
+      let done = false;
+      const revisited = revisit().then(() => {
+        done = true;
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      assert.equal(done, false);
+      release();
+      await revisited;
+    }
+    assert.equal(await browser.getUrl(), `${server.url}/list.html`);
+    await browser.closeBrowser();
+  });
+});
@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { TaskTimeoutError } from "../frameworks/common/errors";
+import { PagePool } from "../frameworks/common/pagePool";
+import { frameworkSelector } from "../frameworks/frameworkFascade";
+import { IBaseBrowser } from "../types/interfaces/baseBrowser";
+
+describe("PagePool", () => {
+  it("replaces the page of a timed out task and ignores its late failure", async () => {
+    const browser = await frameworkSelector.static({ logs: false });
+    const pool = new PagePool(browser, { concurrency: 1, taskTimeout: 50 });
+    const pages: IBaseBrowser[] = [];
+    let abandoned = Promise.resolve();
+    const [timedOut, next] = await pool.runAll([
+      async (page) => {
+        pages.push(page);
+        abandoned = new Promise((resolve) => setTimeout(resolve, 100));
+        await abandoned;
+        throw new Error("late failure");
+      },
+      async (page) => {
+        pages.push(page);
+        return "done";
+      },
+    ]);
+    assert.ok(!timedOut.ok && timedOut.error instanceof TaskTimeoutError);
+    assert.equal(next.ok && next.value, "done");
+    assert.notEqual(pages[0], pages[1]);
+    //the late rejection of the abandoned task must not surface
+    await abandoned;
+    await pool.close();
+    await browser.closeBrowser();
+  });
+});
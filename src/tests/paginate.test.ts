@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { fixtures } from "../conformance/fixtures";
+import { paginate } from "../frameworks/common/paginate";
+import { frameworkSelector } from "../frameworks/frameworkFascade";
+import { IBaseBrowser } from "../types/interfaces/baseBrowser";
+import { paginationOptions } from "../types/interfaces/basePagination";
+
+describe("paginate", () => {
+  let server: Server;
+  let origin: string;
+
+  before(async () => {
+    //the listing of the fixtures, its third page is disallowed
+    server = createServer((request, response) => {
+      const body =
+        request.url === "/robots.txt"
+          ? "User-agent: *\nDisallow: /pages/3.html\n"
+          : fixtures[request.url ?? ""];
+      response.statusCode = body === undefined ? 404 : 200;
+      response.end(body);
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const entries = async (browser: IBaseBrowser): Promise<string[]> =>
+    await browser.selector(".entry").map((entry) => entry.getText());
+
+  const pages = async (
+    start: string,
+    options: paginationOptions<string[]>
+  ): Promise<string[][]> => {
+    const browser = await frameworkSelector.static({
+      logs: false,
+      throwOnFail: true,
+      respectRobotsTxt: true,
+      robotsDisallowed: "skip",
+    });
+    await browser.navigateTo(`${origin}${start}`);
+    const result: string[][] = [];
+    for await (const { data } of paginate(browser, options)) result.push(data);
+    await browser.closeBrowser();
+    return result;
+  };
+
+  //without stopping, the previous page would be polled for a change until the 30s default timeout
+  it(
+    "stops at a page disallowed by robots.txt",
+    { timeout: 10000 },
+    async () => {
+      const expected = [
+        ["a", "b"],
+        ["c", "d"],
+      ];
+      assert.deepEqual(
+        await pages("/index.html", {
+          mode: "url",
+          urlTemplate: `${origin}/pages/{page}.html`,
+          extract: entries,
+        }),
+        expected
+      );
+      assert.deepEqual(
+        await pages("/pages/1.html", {
+          mode: "relNext",
+          changeSelector: "#entries",
+          extract: entries,
+        }),
+        expected
+      );
+    }
+  );
+});
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { launchProxy } from "../frameworks/playwright/playwright.browser";
+
+describe("launchProxy", () => {
+  const proxy = { server: "http://127.0.0.1:3128" };
+
+  it("launches without a global proxy, contexts set their own", () => {
+    assert.equal(
+      launchProxy({ browser: "chromium", proxy }, "linux"),
+      undefined
+    );
+    assert.equal(
+      launchProxy({ browser: "firefox", proxy }, "win32"),
+      undefined
+    );
+  });
+
+  it("gives chromium on Windows the placeholder every context overrides", () => {
+    assert.deepEqual(launchProxy({ browser: "chromium", proxy }, "win32"), {
+      server: "per-context",
+    });
+    assert.equal(launchProxy({ browser: "chromium" }, "win32"), undefined);
+  });
+});
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  acquireNavigationSlot,
+  setNavigationClock,
+} from "../frameworks/common/rateLimiter";
+import { isSettled, ManualClock } from "./clock";
+
+//the limits are shared by the whole process, every test uses its own origin
+describe("acquireNavigationSlot", () => {
+  let clock: ManualClock;
+
+  beforeEach(() => {
+    clock = new ManualClock();
+    setNavigationClock(clock);
+  });
+
+  afterEach(() => {
+    setNavigationClock();
+  });
+
+  it("doesn't wait without limits", async () => {
+    assert.ok(await isSettled(acquireNavigationSlot("https://a.test/", {})));
+    assert.ok(await isSettled(acquireNavigationSlot("https://a.test/", {})));
+  });
+
+  it("spaces navigations to the same origin by navigationDelay", async () => {
+    const config = { navigationDelay: 200 };
+    assert.ok(
+      await isSettled(acquireNavigationSlot("https://b.test/1", config))
+    );
+    const second = acquireNavigationSlot("https://b.test/2", config);
+    assert.ok(
+      await isSettled(acquireNavigationSlot("https://c.test/", config))
+    );
+    await clock.advance(199);
+    assert.equal(await isSettled(second), false);
+    await clock.advance(1);
+    assert.ok(await isSettled(second));
+  });
+
+  it("allows rateLimit navigations per interval", async () => {
+    const config = { rateLimit: 2, rateLimitInterval: 300 };
+    assert.ok(
+      await isSettled(acquireNavigationSlot("https://d.test/1", config))
+    );
+    assert.ok(
+      await isSettled(acquireNavigationSlot("https://d.test/2", config))
+    );
+    const third = acquireNavigationSlot("https://d.test/3", config);
+    await clock.advance(299);
+    assert.equal(await isSettled(third), false);
+    await clock.advance(1);
+    assert.ok(await isSettled(third));
+  });
+
+  it("waits for a free slot when maxConcurrentNavigations is reached", async () => {
+    const config = { maxConcurrentNavigations: 1 };
+    const release = await acquireNavigationSlot("https://e.test/1", config);
+    const next = acquireNavigationSlot("https://e.test/2", config);
+    assert.equal(await isSettled(next), false);
+    release();
+    (await next)();
+  });
+});
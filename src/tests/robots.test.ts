@@ -0,0 +1,304 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { createServer, Server } from "node:http";
+import { AddressInfo, connect } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  checkRobotsTxt,
+  isAllowedByRobots,
+  parseRobotsTxt,
+} from "../frameworks/common/robots";
+import {
+  RobotsDisallowedError,
+  RobotsUnreachableError,
+} from "../frameworks/common/errors";
+import { HarRecorder, readHar, toHarEntry } from "../frameworks/common/har";
+
+const robots = parseRobotsTxt(`
+# comments and unknown lines are ignored
+Sitemap: https://example.com/sitemap.xml
+
+User-agent: scraperbot
+User-agent: OtherBot
+Disallow: /private
+Allow: /private/public
+Crawl-delay: 2
+
+User-agent: *
+Disallow: /admin
+Disallow: /*.pdf$
+Allow: /admin/help
+Disallow:
+`);
+
+describe("parseRobotsTxt", () => {
+  it("groups consecutive user agents and their rules", () => {
+    assert.deepEqual(robots.groups, [
+      {
+        userAgents: ["scraperbot", "otherbot"],
+        rules: [
+          { allow: false, pattern: "/private" },
+          { allow: true, pattern: "/private/public" },
+        ],
+        crawlDelay: 2,
+      },
+      {
+        userAgents: ["*"],
+        rules: [
+          { allow: false, pattern: "/admin" },
+          { allow: false, pattern: "/*.pdf$" },
+          { allow: true, pattern: "/admin/help" },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("isAllowedByRobots", () => {
+  const allowed = (path: string, userAgent = "*") =>
+    isAllowedByRobots(robots, `https://example.com${path}`, userAgent);
+
+  it("lets the longest matching rule win", () => {
+    assert.equal(allowed("/admin/users"), false);
+    assert.equal(allowed("/admin/help"), true);
+    assert.equal(allowed("/somewhere"), true);
+  });
+
+  it("supports wildcards and end anchors", () => {
+    assert.equal(allowed("/files/report.pdf"), false);
+    assert.equal(allowed("/files/report.pdf?download=1"), true);
+  });
+
+  it("prefers the group of the user agent over the wildcard one", () => {
+    assert.equal(allowed("/admin", "ScraperBot"), true);
+    assert.equal(allowed("/private/page", "scraperbot"), false);
+    assert.equal(allowed("/private/public/page", "scraperbot"), true);
+  });
+
+  it("always allows robots.txt itself", () => {
+    const everything = parseRobotsTxt("User-agent: *\nDisallow: /");
+    assert.equal(
+      isAllowedByRobots(everything, "https://example.com/robots.txt", "*"),
+      true
+    );
+    assert.equal(
+      isAllowedByRobots(everything, "https://example.com/", "*"),
+      false
+    );
+  });
+
+  it("follows allowAll when robots.txt could not be read", () => {
+    const url = "https://example.com/admin";
+    assert.equal(
+      isAllowedByRobots({ groups: [], allowAll: true }, url, "*"),
+      true
+    );
+    assert.equal(
+      isAllowedByRobots({ groups: [], allowAll: false }, url, "*"),
+      false
+    );
+  });
+
+  it("disallows everything while robots.txt is unreachable", () => {
+    assert.equal(
+      isAllowedByRobots(
+        { groups: [], unreachable: "the server answered 503" },
+        "https://example.com/robots.txt",
+        "*"
+      ),
+      false
+    );
+  });
+});
+
+const listen = async (server: Server): Promise<number> => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return (server.address() as AddressInfo).port;
+};
+
+describe("checkRobotsTxt", () => {
+  let server: Server;
+  let proxy: Server;
+  let origin: string;
+  let proxyUrl: string;
+  const tunnels: (string | undefined)[] = [];
+  let failures = 0;
+
+  before(async () => {
+    server = createServer((request, response) => {
+      if (request.url === "/robots.txt") {
+        //the bots are told apart by the user agent of the request
+        const userAgent = request.headers["user-agent"];
+        if (userAgent === "failing" || userAgent === "forbidden") {
+          if (userAgent === "failing") failures++;
+          response.statusCode = userAgent === "failing" ? 503 : 403;
+          response.end();
+          return;
+        }
+        const bot = userAgent === "scraperbot";
+        response.end(`User-agent: *\nDisallow: /${bot ? "bots" : "private"}\n`);
+        return;
+      }
+      response.statusCode = 404;
+      response.end();
+    });
+    origin = `http://127.0.0.1:${await listen(server)}`;
+    proxy = createServer();
+    proxy.on("connect", (request, socket) => {
+      tunnels.push(request.headers["proxy-authorization"]);
+      const [host, port] = (request.url as string).split(":");
+      const upstream = connect(Number(port), host, () => {
+        socket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+        upstream.pipe(socket);
+        socket.pipe(upstream);
+      });
+    });
+    proxyUrl = `http://127.0.0.1:${await listen(proxy)}`;
+  });
+
+  after(() => {
+    server.close();
+    proxy.close();
+  });
+
+  it("allows everything when robots.txt is not respected", async () => {
+    assert.equal(await checkRobotsTxt(`${origin}/private`, {}), true);
+  });
+
+  it("throws on disallowed URLs or skips them", async () => {
+    await assert.rejects(
+      checkRobotsTxt(`${origin}/private`, { respectRobotsTxt: true }),
+      RobotsDisallowedError
+    );
+    assert.equal(
+      await checkRobotsTxt(`${origin}/private`, {
+        respectRobotsTxt: true,
+        robotsDisallowed: "skip",
+      }),
+      false
+    );
+    assert.equal(
+      await checkRobotsTxt(`${origin}/public`, { respectRobotsTxt: true }),
+      true
+    );
+  });
+
+  it("allows everything when robots.txt is forbidden", async () => {
+    const config = { respectRobotsTxt: true, robotsUserAgent: "forbidden" };
+    assert.equal(await checkRobotsTxt(`${origin}/private`, config), true);
+  });
+
+  it("keeps an unreachable origin disallowed without asking again", async () => {
+    const config = {
+      respectRobotsTxt: true,
+      robotsUserAgent: "failing",
+      robotsDisallowed: "skip" as const,
+    };
+    //unlike a disallow, the failure is reported even when disallowed URLs are skipped
+    await assert.rejects(
+      checkRobotsTxt(`${origin}/public`, config),
+      RobotsUnreachableError
+    );
+    await assert.rejects(
+      checkRobotsTxt(`${origin}/public`, config),
+      RobotsUnreachableError
+    );
+    assert.equal(failures, 1);
+    //nothing listens on this port
+    await assert.rejects(
+      checkRobotsTxt("http://127.0.0.1:9/public", config),
+      RobotsUnreachableError
+    );
+  });
+
+  it("sends robotsUserAgent as the user agent", async () => {
+    const config = {
+      respectRobotsTxt: true,
+      robotsUserAgent: "scraperbot",
+      robotsDisallowed: "skip" as const,
+    };
+    assert.equal(await checkRobotsTxt(`${origin}/bots`, config), false);
+    assert.equal(await checkRobotsTxt(`${origin}/private`, config), true);
+  });
+
+  it("requests robots.txt through the proxy of the page", async () => {
+    const config = {
+      respectRobotsTxt: true,
+      robotsDisallowed: "skip" as const,
+    };
+    const request = {
+      proxy: { server: proxyUrl, username: "user", password: "secret" },
+    };
+    assert.equal(
+      await checkRobotsTxt(`${origin}/private`, config, undefined, request),
+      false
+    );
+    assert.deepEqual(tunnels, [
+      `Basic ${Buffer.from("user:secret").toString("base64")}`,
+    ]);
+    //another user agent so the cached robots.txt isn't reused
+    const bypassed = { proxy: { ...request.proxy, bypass: ["127.0.0.1"] } };
+    tunnels.length = 0;
+    assert.equal(
+      await checkRobotsTxt(
+        `${origin}/private`,
+        { ...config, robotsUserAgent: "otherbot" },
+        undefined,
+        bypassed
+      ),
+      false
+    );
+    assert.deepEqual(tunnels, []);
+  });
+
+  it("records robots.txt with the traffic of the browser", async () => {
+    const path = join(mkdtempSync(join(tmpdir(), "scraper-robots-")), "a.har");
+    const recorder = new HarRecorder(path);
+    await checkRobotsTxt(
+      `${origin}/private`,
+      { respectRobotsTxt: true, robotsUserAgent: "recorder" },
+      undefined,
+      { recorder }
+    ).catch(() => undefined);
+    await recorder.save();
+    const [entry] = readHar(path).log.entries;
+    assert.equal(entry.request.url, `${origin}/robots.txt`);
+    assert.equal(entry.response.status, 200);
+  });
+
+  it("serves robots.txt from the replayed HAR", async () => {
+    //nothing listens on this origin, the replay must not reach the network
+    const offline = "http://127.0.0.1:9";
+    const path = join(mkdtempSync(join(tmpdir(), "scraper-robots-")), "a.har");
+    const entry = toHarEntry({
+      started: 0,
+      finished: 0,
+      request: { url: `${offline}/robots.txt`, method: "GET", headers: {} },
+      response: {
+        status: 200,
+        statusText: "OK",
+        headers: { "content-type": "text/plain" },
+        body: Buffer.from("User-agent: *\nDisallow: /replayed\n"),
+      },
+    });
+    writeFileSync(path, JSON.stringify({ log: { entries: [entry] } }));
+    const config = {
+      respectRobotsTxt: true,
+      robotsDisallowed: "skip" as const,
+      replayHar: path,
+    };
+    assert.equal(await checkRobotsTxt(`${offline}/replayed`, config), false);
+    assert.equal(await checkRobotsTxt(`${offline}/other`, config), true);
+    //not recorded, robots.txt counts as missing
+    writeFileSync(path, JSON.stringify({ log: { entries: [] } }));
+    assert.equal(
+      await checkRobotsTxt(`${origin}/private`, {
+        ...config,
+        robotsUserAgent: "replayer",
+      }),
+      true
+    );
+  });
+});
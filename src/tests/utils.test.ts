@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ActionTimeoutError } from "../frameworks/common/errors";
+import { safeRun } from "../frameworks/common/utils";
+
+describe("safeRun", () => {
+  it("retries failed attempts", async () => {
+    let attempts = 0;
+    const result = await safeRun(
+      { message: "Flaky action", throwOnFail: true, retries: 2 },
+      async () => {
+        if (++attempts < 3) throw new Error("flaky");
+        return attempts;
+      }
+    );
+    assert.equal(result, 3);
+  });
+
+  it("doesn't retry an attempt abandoned on timeout", async () => {
+    let attempts = 0;
+    let finish = () => {};
+    await assert.rejects(
+      safeRun(
+        {
+          message: "Slow action",
+          throwOnFail: true,
+          retries: 2,
+          timeout: 10,
+        },
+        async () => {
+          attempts++;
+          //settles after the timeout with a rejection nobody waits for
+          await new Promise<void>((resolve) => (finish = resolve));
+          throw new Error("late failure");
+        }
+      ),
+      ActionTimeoutError
+    );
+    assert.equal(attempts, 1);
+    finish();
+  });
+});
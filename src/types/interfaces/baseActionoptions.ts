@@ -1,5 +1,38 @@
+import { ActionError, ActionErrorClass } from "../../frameworks/common/errors";
+
+/**
+ * How the delay grows between retries: "fixed" waits retryDelay every time,
+ * "exponential" doubles it after each attempt and "jitter" picks a random delay up to the exponential one
+ */
+export type retryBackoff = "fixed" | "exponential" | "jitter";
+
+/**
+ * Decides which failures are retried, either a predicate or a list of error classes (or their names)
+ */
+export type retryOn =
+  | ((error: ActionError, attempt: number) => boolean)
+  | (ActionErrorClass | string)[];
+
 export interface actionOptions {
+  /**
+   * Time in milliseconds an action may take before it fails with an ActionTimeoutError, 0 disables it
+   */
   timeout?: number;
   log?: boolean;
   throwOnFail?: boolean;
+  /**
+   * Number of times a failed action is retried
+   */
+  retries?: number;
+  /**
+   * Delay in milliseconds before the first retry
+   */
+  retryDelay?: number;
+  retryBackoff?: retryBackoff;
+  /**
+   * Failures that are retried, every failure except BackendUnsupportedError, RobotsDisallowedError
+   * and RobotsUnreachableError by default.
+   * An action still running when its timeout and grace period run out is never retried
+   */
+  retryOn?: retryOn;
 }
@@ -1,5 +1,13 @@
 import { actionOptions } from "./baseActionoptions";
 import { IBaseElement } from "./baseElement";
+import { harvestOptions } from "./baseHarvest";
+import { interceptRule } from "./baseInterception";
+import {
+  capturedResponse,
+  responseCapture,
+  responseMatcher,
+} from "./baseResponses";
+import { extractionResult, extractionSchema } from "./baseSchema";
 
 export enum SelectorType {
   id = "id",
@@ -9,18 +17,28 @@ export enum SelectorType {
   tag = "tag",
 }
 
+/**
+ * A selector type given either as the enum member or its string value
+ */
+export type SelectorTypeOption = SelectorType | `${SelectorType}`;
+
+/**
+ * A regular expression tested against a URL, or a string the URL must contain
+ */
+export type urlPattern = string | RegExp;
+
 export interface IBaseBrowser {
   /**
    * Retrieves an element using the specified selector and optional force selector type
    *
    * @param selector - The selector to locate the element
-   * @param forceSelectorType - Optional. The type of selector to use ("id", "class", "xpath", "text", "tag")
+   * @param forceSelectorType - Optional. The type of selector to use ("id", "class", "xpath", "text", "tag"), detected from the selector when omitted
    *
    * @returns The selected element
    */
   selector: (
     selector: string,
-    forceSelectorType?: SelectorType
+    forceSelectorType?: SelectorTypeOption
   ) => IBaseElement;
 
   /**
@@ -28,9 +46,9 @@ export interface IBaseBrowser {
    *
    * @param url - The URL to navigate to
    *
-   * @returns A Promise that resolves when the navigation is complete
+   * @returns A Promise resolving to false when the navigation was skipped because robots.txt disallows the URL, true otherwise
    */
-  navigateTo: (url: string, options?: actionOptions) => Promise<void>;
+  navigateTo: (url: string, options?: actionOptions) => Promise<boolean>;
 
   /**
    * Retrieves the current URL of the page
@@ -70,7 +88,7 @@ export interface IBaseBrowser {
   /**
    * Opens a new tab in the browser and optionally navigates to the specified URL
    *
-   * @param url - Optional. The URL to navigate to in the new tab
+   * @param url - Optional. The URL to navigate to in the new tab, the tab stays blank when robots.txt makes the navigation skip it
    *
    * @returns A Promise that resolves when the new tab is opened and navigation is complete
    */
@@ -92,6 +110,67 @@ export interface IBaseBrowser {
    */
   switchToTab: (tabIndex: number, options?: actionOptions) => Promise<void>;
 
+  /**
+   * Opens a page driven independently from the tabs of this browser. It shares the browser but not its session,
+   * every worker has its own cookies and storage. Closing the worker only closes its own pages
+   *
+   * @returns A Promise resolving to the worker
+   */
+  openWorker: (options?: actionOptions) => Promise<IBaseBrowser>;
+
+  /**
+   * Adds a rule blocking, rewriting the headers of or fulfilling the matching requests of every tab.
+   * Rules are checked in the order they were added, header rewrites add up until a rule blocks or fulfills the request
+   *
+   * @param rule - The requests to match and what to do with them
+   *
+   * @returns A Promise that resolves when the rule applies
+   */
+  intercept: (rule: interceptRule, options?: actionOptions) => Promise<void>;
+
+  /**
+   * Removes every interception rule
+   *
+   * @returns A Promise that resolves when requests are no longer intercepted
+   */
+  clearInterceptions: (options?: actionOptions) => Promise<void>;
+
+  /**
+   * Starts collecting the matching responses of every tab, e.g. the JSON returned by XHR and fetch calls
+   *
+   * @param matcher - The responses to collect, by URL, method, content type or status
+   *
+   * @returns A Promise resolving to the capture, its responses are filled until it is stopped
+   */
+  captureResponses: (
+    matcher: responseMatcher,
+    options?: actionOptions
+  ) => Promise<responseCapture>;
+
+  /**
+   * Waits for the first matching response of any tab
+   *
+   * @param matcher - The response to wait for
+   * @param trigger - Optional. The action causing the response, e.g. a click, run once the wait is registered
+   *
+   * @returns A Promise resolving to the response, with its JSON body parsed
+   */
+  awaitResponse: (
+    matcher: responseMatcher,
+    trigger?: () => Promise<unknown>,
+    options?: actionOptions
+  ) => Promise<capturedResponse>;
+
+  /**
+   * Saves the cookies of the browser and the localStorage and sessionStorage of the origins open in its tabs,
+   * the restoreSession config option starts a later browser from the file
+   *
+   * @param path - The file to write the session to
+   *
+   * @returns A Promise that resolves when the file is written
+   */
+  saveSession: (path: string, options?: actionOptions) => Promise<void>;
+
   // /**
   //  * Retrieves an element within an iframe using the specified selector and optional force selector type
   //  *
@@ -109,10 +188,28 @@ export interface IBaseBrowser {
    * Evaluates the provided callback function in the context of the current page and returns the result
    *
    * @param callBack - The callback function to be evaluated
+   * @param arg - The argument passed to the callback
    *
    * @returns A Promise resolving to the result of the evaluation
    */
-  $eval<T>(callBack: () => T, arg: any, options: actionOptions): Promise<T>;
+  $eval<T>(
+    callBack: (arg: any) => T,
+    arg: any,
+    options: actionOptions
+  ): Promise<T>;
+
+  /**
+   * Extracts a record from the current page as described by the schema
+   *
+   * @param schema - The fields to extract, each a selector or a { selector, attribute, html, transform, list, schema } object
+   * @param options.timeout - Timeout in milliseconds of every read
+   *
+   * @returns A Promise resolving to the typed record and the fields that failed to resolve
+   */
+  extract<const S extends extractionSchema>(
+    schema: S,
+    options?: actionOptions
+  ): Promise<extractionResult<S>>;
 
   /**
    * Performs mouse actions on the current page
@@ -214,6 +311,15 @@ export interface IBaseBrowser {
      * @returns A Promise that resolves when the scrolling is complete
      */
     right: (options?: actionOptions) => Promise<void>;
+
+    /**
+     * Scrolls the page or a container until it stops loading new items
+     *
+     * @param options - The items to harvest, the scrollable container and the stop conditions
+     *
+     * @returns An async iterator yielding every new item once, starting with the items already shown
+     */
+    untilExhausted: (options: harvestOptions) => AsyncGenerator<IBaseElement>;
   };
   /**
    * Performs actions related to alerts on the current page
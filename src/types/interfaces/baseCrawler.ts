@@ -0,0 +1,92 @@
+import { actionOptions } from "./baseActionoptions";
+import { IBaseBrowser, urlPattern } from "./baseBrowser";
+
+export interface crawledPage {
+  /**
+   * Normalized URL the page was queued with
+   */
+  url: string;
+  /**
+   * URL after redirects
+   */
+  finalUrl: string;
+  /**
+   * Number of links followed from a seed, seeds have a depth of 0
+   */
+  depth: number;
+  /**
+   * Page the URL was found on, undefined for seeds
+   */
+  referrer?: string;
+}
+
+export interface crawlOptions extends actionOptions {
+  seeds: string[];
+  /**
+   * Runs on every visited page once it is loaded, its errors are reported without stopping the crawl
+   */
+  handler?: (browser: IBaseBrowser, page: crawledPage) => Promise<void>;
+  /**
+   * Selector of the links to follow, defaults to "a"
+   */
+  linkSelector?: string;
+  /**
+   * When set, only URLs matching one of the patterns are visited
+   */
+  include?: urlPattern[];
+  /**
+   * URLs matching one of the patterns are never visited
+   */
+  exclude?: urlPattern[];
+  /**
+   * Only follows links to the hosts of the seeds, defaults to true
+   */
+  sameDomain?: boolean;
+  /**
+   * Maximum depth of the visited pages, unlimited by default
+   */
+  maxDepth?: number;
+  /**
+   * Maximum number of pages to load, failed ones included, unlimited by default
+   */
+  maxPages?: number;
+}
+
+export type skipReason =
+  | "invalid"
+  | "protocol"
+  | "offDomain"
+  | "excluded"
+  | "notIncluded"
+  | "maxDepth"
+  | "maxPages"
+  | "robots";
+
+export interface skippedUrl {
+  url: string;
+  reason: skipReason;
+  referrer?: string;
+}
+
+export interface crawlError {
+  url: string;
+  depth: number;
+  /**
+   * "navigation" when the page could not be loaded, "handler" when the handler failed
+   * and "links" when the links could not be read
+   */
+  stage: "navigation" | "handler" | "links";
+  error: Error;
+}
+
+export interface crawlReport {
+  /**
+   * Pages loaded successfully, in the order they were visited
+   */
+  visited: crawledPage[];
+  errors: crawlError[];
+  /**
+   * URLs that were found but not visited, each reported once
+   */
+  skipped: skippedUrl[];
+}
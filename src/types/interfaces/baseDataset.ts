@@ -0,0 +1,40 @@
+export type datasetRecord = Record<string, unknown>;
+
+export type datasetFormat = "json" | "jsonl" | "csv";
+
+/**
+ * Receives the records pushed to a dataset, writes are synchronous so they can run while the process exits
+ */
+export interface IDatasetSink {
+  write: (record: datasetRecord) => void;
+  /**
+   * Writes the buffered records, the file is complete and readable afterwards
+   */
+  flush: () => void;
+  close: () => void;
+}
+
+export interface datasetSinkOptions {
+  format: datasetFormat;
+  /**
+   * File the records are written to, rotated files get a number before the extension, e.g. data.1.csv
+   */
+  path: string;
+  /**
+   * Starts a new file once the current one would grow past this size in bytes
+   */
+  maxBytes?: number;
+  /**
+   * Starts a new file once the current one holds this many records
+   */
+  maxRecords?: number;
+  /**
+   * Number of records kept in memory before they are written, defaults to 100
+   */
+  bufferSize?: number;
+  /**
+   * Columns of a CSV file, inferred from the keys of the first records written when omitted.
+   * Keys missing from the columns are left out
+   */
+  fields?: string[];
+}
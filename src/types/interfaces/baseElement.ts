@@ -1,4 +1,7 @@
 import { actionOptions } from "./baseActionoptions";
+import { SelectorTypeOption } from "./baseBrowser";
+import { extractionResult, extractionSchema } from "./baseSchema";
+import { tableFormat, tableOptions, tableResult } from "./baseTable";
 
 export interface IBaseElement {
   /*  isIframe: boolean;
@@ -69,9 +72,15 @@ export interface IBaseElement {
    * Selects the specified option in the targeted element
    *
    * @param option - The option to select (can be a string or number)
+   * @param options.timeout - Timeout in milliseconds
+   * @param options.log - Whether to log the action status
+   * @param options.throwOnFail - Whether to throw an error if the action fails
    *
    */
-  selectOption: (option: string | number) => Promise<void>;
+  selectOption: (
+    option: string | number,
+    options?: actionOptions
+  ) => Promise<void>;
 
   /**
    * Retrieves the value of the targeted element
@@ -199,6 +208,32 @@ export interface IBaseElement {
    */
   getHTML: (options?: actionOptions) => Promise<string>;
 
+  /**
+   * Extracts a record from the targeted element as described by the schema, selectors are relative to the element
+   *
+   * @param schema - The fields to extract, each a selector or a { selector, attribute, html, transform, list, schema } object
+   * @param options.timeout - Timeout in milliseconds of every read
+   *
+   * @returns A Promise resolving to the typed record and the fields that failed to resolve
+   */
+  extract<const S extends extractionSchema>(
+    schema: S,
+    options?: actionOptions
+  ): Promise<extractionResult<S>>;
+
+  /**
+   * Reads the targeted table, or the first table inside the targeted element, with colspan and rowspan expanded
+   *
+   * @param options.format - "matrix" (default) for every row as cell texts, "objects" for the body rows keyed by their header
+   * @param options.headerSeparator - Joins the headers of a column when the table has several header rows
+   * @param options.timeout - Timeout in milliseconds
+   *
+   * @returns A Promise resolving to the rows of the table
+   */
+  extractTable<F extends tableFormat = "matrix">(
+    options?: tableOptions<F>
+  ): Promise<tableResult<F>>;
+
   /**
    * Executes the provided callback function for each element in the targeted element's collection
    *
@@ -247,17 +282,29 @@ export interface IBaseElement {
    */
   nth(index: number): IBaseElement;
 
+  /**
+   * Resolves the first targeted element and returns an element bound to it, which keeps targeting
+   * the same node when the page adds, removes or reorders elements
+   *
+   * @param options.timeout - Timeout in milliseconds
+   * @param options.log - Whether to log the action status
+   * @param options.throwOnFail - Whether to throw an error if no element is found
+   *
+   * @returns A Promise resolving to the element bound to the resolved node
+   */
+  handle(options?: actionOptions): Promise<IBaseElement>;
+
   /**
    * Finds element inside the targeted element's collection that matches the provided selector
    *
    * @param selector - The selector to match
-   * @param forceSelectorType - The selector type to use
+   * @param forceSelectorType - Optional. The selector type to use, detected from the selector when omitted
    *
    * @returns The element that matches the provided selector
    *
    */
   selector: (
     selector: string,
-    forceSelectorType?: "id" | "class" | "xpath" | "text" | "tag"
+    forceSelectorType?: SelectorTypeOption
   ) => IBaseElement;
 }
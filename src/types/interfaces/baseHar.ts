@@ -0,0 +1,54 @@
+/**
+ * The subset of the HAR 1.2 format written and replayed by the browsers
+ */
+
+export interface harHeader {
+  name: string;
+  value: string;
+}
+
+export interface harRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  headers: harHeader[];
+  queryString: harHeader[];
+  cookies: unknown[];
+  headersSize: number;
+  bodySize: number;
+  postData?: { mimeType: string; text: string };
+}
+
+export interface harResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  headers: harHeader[];
+  cookies: unknown[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: "base64";
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface harEntry {
+  startedDateTime: string;
+  time: number;
+  request: harRequest;
+  response: harResponse;
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+export interface har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: harEntry[];
+  };
+}
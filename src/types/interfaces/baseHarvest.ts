@@ -0,0 +1,32 @@
+import { actionOptions } from "./baseActionoptions";
+import { SelectorTypeOption } from "./baseBrowser";
+import { IBaseElement } from "./baseElement";
+
+export interface harvestOptions extends actionOptions {
+  /**
+   * Selector of the items appended while scrolling
+   */
+  itemSelector: string;
+  selectorType?: SelectorTypeOption;
+  /**
+   * CSS selector of the scrollable element, the page is scrolled when omitted
+   */
+  container?: string;
+  /**
+   * Time in milliseconds to wait for new items after a scroll before stopping, defaults to 2000
+   */
+  idleTimeout?: number;
+  /**
+   * Maximum number of items to yield, unlimited by default
+   */
+  maxItems?: number;
+  /**
+   * Maximum number of scrolls, unlimited by default
+   */
+  maxScrolls?: number;
+  /**
+   * Identifies an item, needed when the feed removes or recycles items while scrolling.
+   * Items are told apart by their position when omitted
+   */
+  key?: (item: IBaseElement) => Promise<string>;
+}
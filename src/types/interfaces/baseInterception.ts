@@ -0,0 +1,72 @@
+import { urlPattern } from "./baseBrowser";
+
+export type resourceType =
+  | "document"
+  | "stylesheet"
+  | "image"
+  | "media"
+  | "font"
+  | "script"
+  | "texttrack"
+  | "xhr"
+  | "fetch"
+  | "eventsource"
+  | "websocket"
+  | "manifest"
+  | "other";
+
+/**
+ * Selects requests, every given criterion must match
+ */
+export interface requestMatcher {
+  url?: urlPattern | urlPattern[];
+  /**
+   * HTTP method, matched case-insensitively
+   */
+  method?: string;
+  resourceTypes?: resourceType[];
+}
+
+export interface cannedResponse {
+  /**
+   * Defaults to 200
+   */
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  body?: string;
+  /**
+   * Serialized as the body, the content type defaults to application/json
+   */
+  json?: unknown;
+}
+
+export type interceptRule =
+  | { action: "block"; match: requestMatcher }
+  | {
+      action: "headers";
+      match: requestMatcher;
+      /**
+       * Headers to set on the request, a null value removes the header
+       */
+      headers: Record<string, string | null>;
+    }
+  | { action: "fulfill"; match: requestMatcher; response: cannedResponse };
+
+/**
+ * The request as seen by the rules, whatever the backend
+ */
+export interface interceptedRequest {
+  url: string;
+  method: string;
+  resourceType: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * What to do with a request once every rule has been checked
+ */
+export type interceptDecision =
+  | { action: "block" }
+  | { action: "fulfill"; response: cannedResponse }
+  | { action: "continue"; headers?: Record<string, string> };
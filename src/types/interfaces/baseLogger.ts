@@ -0,0 +1,44 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LogEntry {
+  level: LogLevel;
+  /**
+   * ISO 8601 time at which the entry was written
+   */
+  timestamp: string;
+  message: string;
+  /**
+   * The backend running the action ("playwright", "puppeteer", "selenium", "static")
+   */
+  backend?: string;
+  /**
+   * Index of the tab the action ran in
+   */
+  tab?: number;
+  /**
+   * Selector of the element the action ran on
+   */
+  selector?: string;
+  /**
+   * Time the action took in milliseconds
+   */
+  duration?: number;
+  outcome?: "success" | "failure";
+  /**
+   * Attempt number of the action when it is retried, starting at 1
+   */
+  attempt?: number;
+  /**
+   * Message of the error that made the action fail
+   */
+  error?: string;
+}
+
+export interface ILogger {
+  /**
+   * Writes a log entry
+   *
+   * @param entry - The entry to write
+   */
+  log: (entry: LogEntry) => void;
+}
@@ -0,0 +1,45 @@
+import { IBaseBrowser } from "./baseBrowser";
+
+/**
+ * A unit of work run on a worker page of the pool
+ */
+export type pageTask<T> = (page: IBaseBrowser) => Promise<T>;
+
+export interface pagePoolOptions {
+  /**
+   * Number of pages running tasks at once, defaults to 4
+   */
+  concurrency?: number;
+  /**
+   * Time in milliseconds a task may take before it fails with an ActionTimeoutError, 0 disables it.
+   * The page of a task that timed out is closed since it may still be busy
+   */
+  taskTimeout?: number;
+  /**
+   * Number of tasks a page runs before it is closed and replaced, unlimited by default
+   */
+  recycleAfter?: number;
+}
+
+interface taskOutcome {
+  /**
+   * Position of the task in the order it was submitted to the pool
+   */
+  id: number;
+  /**
+   * Time in milliseconds the task took, waiting in the queue excluded
+   */
+  duration: number;
+}
+
+export interface taskSuccess<T> extends taskOutcome {
+  ok: true;
+  value: T;
+}
+
+export interface taskFailure extends taskOutcome {
+  ok: false;
+  error: Error;
+}
+
+export type taskResult<T> = taskSuccess<T> | taskFailure;
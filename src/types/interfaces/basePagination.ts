@@ -0,0 +1,64 @@
+import { actionOptions } from "./baseActionoptions";
+import { IBaseBrowser, SelectorTypeOption } from "./baseBrowser";
+
+interface paginationBase<T> extends actionOptions {
+  /**
+   * Runs on every page, an empty array ends the pagination without being yielded
+   */
+  extract: (browser: IBaseBrowser, page: number) => Promise<T>;
+  /**
+   * Maximum number of pages to visit, unlimited by default
+   */
+  maxPages?: number;
+  /**
+   * Element whose HTML must change after moving to the next page, defaults to "body".
+   * The change is awaited for the timeout of the options, 30s when it is not set
+   */
+  changeSelector?: string;
+  /**
+   * Checked after a page is yielded, returning true ends the pagination
+   */
+  stopWhen?: (result: T, page: number) => boolean | Promise<boolean>;
+}
+
+/**
+ * Clicks the "next" element until it is missing, hidden or disabled
+ */
+export interface nextPagination<T> extends paginationBase<T> {
+  mode: "next";
+  nextSelector: string;
+  selectorType?: SelectorTypeOption;
+}
+
+/**
+ * Navigates to a URL built from a template, "{page}" is replaced by the page number
+ */
+export interface urlPagination<T> extends paginationBase<T> {
+  mode: "url";
+  urlTemplate: string;
+  /**
+   * Number of the first page, defaults to 1
+   */
+  firstPage?: number;
+}
+
+/**
+ * Follows the rel="next" link of each page
+ */
+export interface relNextPagination<T> extends paginationBase<T> {
+  mode: "relNext";
+}
+
+export type paginationOptions<T> =
+  | nextPagination<T>
+  | urlPagination<T>
+  | relNextPagination<T>;
+
+export interface paginatedPage<T> {
+  /**
+   * Number of the page, starting at 1 (or firstPage in url mode)
+   */
+  page: number;
+  url: string;
+  data: T;
+}
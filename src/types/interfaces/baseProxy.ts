@@ -0,0 +1,12 @@
+export interface proxySettings {
+  /**
+   * HTTP or SOCKS proxy, e.g. http://proxy.example.com:3128 or socks5://proxy.example.com:1080
+   */
+  server: string;
+  /**
+   * Hosts reached without the proxy, e.g. [".example.com", "localhost"]
+   */
+  bypass?: string[];
+  username?: string;
+  password?: string;
+}
@@ -0,0 +1,46 @@
+import { urlPattern } from "./baseBrowser";
+
+/**
+ * Selects responses, every given criterion must match
+ */
+export interface responseMatcher {
+  url?: urlPattern | urlPattern[];
+  /**
+   * HTTP method of the request, matched case-insensitively
+   */
+  method?: string;
+  /**
+   * A regular expression tested against the content type, or a string it must contain, e.g. "json"
+   */
+  contentType?: string | RegExp;
+  status?: number;
+}
+
+export interface capturedResponse {
+  url: string;
+  method: string;
+  status: number;
+  /**
+   * Header names are lower case
+   */
+  headers: Record<string, string>;
+  /**
+   * The parsed body for JSON content types, the text otherwise.
+   * Undefined when the body can't be read, e.g. for redirects
+   */
+  body: unknown;
+}
+
+/**
+ * Collects the matching responses until it is stopped
+ */
+export interface responseCapture {
+  /**
+   * Filled in arrival order once the body of each response is read
+   */
+  responses: capturedResponse[];
+  /**
+   * Stops collecting, resolves once the bodies of the responses already matched are read
+   */
+  stop: () => Promise<void>;
+}
@@ -0,0 +1,84 @@
+import { SelectorTypeOption } from "./baseBrowser";
+
+interface schemaFieldBase {
+  /**
+   * Selector of the field relative to the element being extracted, the element itself when omitted
+   */
+  selector?: string;
+  selectorType?: SelectorTypeOption;
+  /**
+   * Collects every match into an array instead of reading the first one
+   */
+  list?: boolean;
+  /**
+   * Missing optional fields resolve to null (or an empty list) without being reported
+   */
+  optional?: boolean;
+}
+
+export interface valueField extends schemaFieldBase {
+  /**
+   * Reads this attribute instead of the text
+   */
+  attribute?: string;
+  /**
+   * Reads the inner HTML instead of the text
+   */
+  html?: boolean;
+  /**
+   * Converts the raw string, its return type becomes the type of the field
+   */
+  transform?: (value: string) => unknown;
+}
+
+export interface nestedField extends schemaFieldBase {
+  /**
+   * Schema extracted from every element matched by the field
+   */
+  schema: extractionSchema;
+}
+
+/**
+ * A selector string is a shorthand for a field reading the text of the first match
+ */
+export type schemaField = string | valueField | nestedField;
+
+export interface extractionSchema {
+  readonly [field: string]: schemaField;
+}
+
+type fieldValue<F> = F extends { schema: infer S extends extractionSchema }
+  ? extractedRecord<S>
+  : F extends { transform: (value: string) => infer R }
+  ? R
+  : string;
+
+type fieldResult<F> = F extends { list: true }
+  ? fieldValue<F>[]
+  : fieldValue<F> | null;
+
+/**
+ * The record produced by a schema, fields that failed to resolve are null or empty lists
+ */
+export type extractedRecord<S extends extractionSchema> = {
+  -readonly [K in keyof S]: S[K] extends string
+    ? string | null
+    : fieldResult<S[K]>;
+};
+
+export interface extractionError {
+  /**
+   * Path of the field in the record, e.g. "products[2].price"
+   */
+  field: string;
+  selector?: string;
+  message: string;
+}
+
+export interface extractionResult<S extends extractionSchema> {
+  data: extractedRecord<S>;
+  /**
+   * Every field that failed to resolve, empty when the whole schema was extracted
+   */
+  errors: extractionError[];
+}
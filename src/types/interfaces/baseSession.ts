@@ -0,0 +1,28 @@
+export interface sessionCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  /**
+   * Expiry in seconds since the epoch, -1 for a session cookie
+   */
+  expires: number;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: "Strict" | "Lax" | "None";
+}
+
+export interface originStorage {
+  origin: string;
+  localStorage: Record<string, string>;
+  sessionStorage: Record<string, string>;
+}
+
+/**
+ * A saved session, any backend supporting sessions can restore the file of another one
+ */
+export interface sessionState {
+  version: 1;
+  cookies: sessionCookie[];
+  origins: originStorage[];
+}
@@ -0,0 +1,19 @@
+import { actionOptions } from "./baseActionoptions";
+
+/**
+ * "matrix" returns every row as an array of cell texts, "objects" returns the body rows keyed by their column header
+ */
+export type tableFormat = "matrix" | "objects";
+
+export interface tableOptions<F extends tableFormat = "matrix">
+  extends actionOptions {
+  format?: F;
+  /**
+   * Joins the headers of a column when the table has several header rows, defaults to " / "
+   */
+  headerSeparator?: string;
+}
+
+export type tableResult<F extends tableFormat> = F extends "objects"
+  ? Record<string, string>[]
+  : string[][];